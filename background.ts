@@ -1,53 +1,433 @@
 // File: background.ts
 import { Storage } from "@plasmohq/storage"
 
+import { DEFAULT_TRANSCRIPT_SOURCE, cuesToEntries, pickCaptionTrack } from "~captions"
+import type { CaptionCue, CaptionTrack, TranscriptSource } from "~captions"
+import {
+  closeOffscreenDocument,
+  ensureOffscreenDocument,
+  getTabStreamId,
+  hasOffscreenDocument,
+  isTabCaptureSupported
+} from "~capture/offscreen"
+import {
+  DEFAULT_TRANSCRIPT_FORMAT,
+  formatTranscript,
+  getFormatMimeType
+} from "~formats"
+import type { TranscriptFormat } from "~formats"
+import { getMessageTabId, onMessage, sendMessage, sendTabMessage } from "~messaging"
+import type { ActiveSession, ChunkProcessedMessage, ExtensionMessage, ResponseFor } from "~messaging"
+import { ChunkQueue, DEFAULT_MAX_CONCURRENT_REQUESTS } from "~pipeline/chunk-queue"
+import { PlaybackTimeline } from "~playback/timeline"
+import type { PlaybackAnchor } from "~playback/timeline"
+import {
+  appendEntries,
+  appendEntry,
+  createSession,
+  getSession,
+  listSessionSummaries,
+  listUnfinishedSessions,
+  pruneSessions,
+  saveSession
+} from "~sessions/store"
+import type { SessionRecord, SessionSummary, TranscriptSession } from "~sessions/store"
+import { DEFAULT_SETTINGS, formatFilename, getSettings, watchSettings } from "~settings"
+import type { Settings } from "~settings"
+import { isKnownVideoSite, isSupportedUrl } from "~sites"
+import type { VideoMetadata } from "~sites"
+import { DEFAULT_CONFIDENCE_SETTINGS, DEFAULT_PRIMARY_LANGUAGE, getSpeechProvider } from "~speech"
+import { stitchOverlap } from "~speech/stitch"
+import type { AudioChunk, NormalizedResult, ProviderStatus, SpeechProvider, TranscriptionEntry } from "~speech"
+import { formatTimestamp } from "~speech/utils"
+import { DEFAULT_TRANSLATION_OUTPUT, translateEntries } from "~translation"
+import type { TranslationOutput } from "~translation"
+
 const storage = new Storage()
 
-interface TranscriptionEntry {
-  timestamp: string
-  text: string
-  language?: string
-  chunkNumber: number
+// How long stopping waits for chunks still being recognized before the final export
+const DRAIN_TIMEOUT_MS = 60000
+
+interface ChunkBounds {
+  startTime: number
+  endTime: number
 }
 
-class UniversalTranscriptionService {
+// One tab's recording: its own chunk counter, playback timeline, request queue and output file
+class TabTranscription {
   private isRecording = false
-  private mediaRecorder: MediaRecorder | null = null
   private audioBuffer: Blob[] = []
-  private isProcessing = false
   private chunkCount = 0
   private transcriptionData: TranscriptionEntry[] = []
   private recordingStartTime: number = 0
   private lastChunkTime: number = 0
-  private currentTabId: number | null = null
+  private playbackTimeline = new PlaybackTimeline()
+  private session: SessionRecord | null = null
+  // Read when the session starts and kept current while it records
+  private settings: Settings = DEFAULT_SETTINGS
+  private unwatchSettings: (() => void) | null = null
+  // The speech provider, configured on first use and again after any stored setting changes
+  private provider: Promise<{ provider: SpeechProvider; status: ProviderStatus }> | null = null
+  private chunkQueue = new ChunkQueue<NormalizedResult | null>({
+    concurrency: DEFAULT_MAX_CONCURRENT_REQUESTS,
+    deliver: (chunkNumber, result) => this.addRecognizedEntries(chunkNumber, result)
+  })
+
+  constructor(
+    readonly tabId: number,
+    // Sends to this tab's content script
+    private notifyTab: (message: ExtensionMessage) => void
+  ) {}
 
-  // Public getter to check recording state
   get recording(): boolean {
     return this.isRecording
   }
 
-  // Public getter and setter for current tab ID
-  get currentTab(): number | null {
-    return this.currentTabId
-  }
-  
-  set currentTab(tabId: number) {
-    this.currentTabId = tabId
-  }
-
   // Public method to set recording state
   setRecordingState(isRecording: boolean) {
     this.isRecording = isRecording
   }
 
+  get summary(): ActiveSession {
+    return {
+      tabId: this.tabId,
+      sessionId: this.session?.id,
+      videoTitle: this.session?.videoTitle || 'Untitled video',
+      startedAt: this.recordingStartTime,
+      entryCount: this.transcriptionData.length
+    }
+  }
+
+  async start(tab: chrome.tabs.Tab, video?: VideoMetadata) {
+    this.recordingStartTime = Date.now()
+    this.lastChunkTime = this.recordingStartTime
+    this.playbackTimeline.reset()
+    this.isRecording = true
+    this.transcriptionData = []
+    this.chunkCount = 0
+    this.chunkQueue.reset()
+    this.chunkQueue.setConcurrency(
+      (await storage.get<number>("max_concurrent_requests")) || DEFAULT_MAX_CONCURRENT_REQUESTS
+    )
+    await this.loadSettings()
+    
+    this.session = createSession(tab, video)
+    await this.persistSession()
+  }
+
+  // Pick a session back up after the service worker was restarted
+  async resume(session: TranscriptSession) {
+    console.log(`Resuming session ${session.id} with ${session.entries.length} entries, ${session.chunkCount} chunks`)
+
+    const { entries, ...record } = session
+    this.session = record
+    this.isRecording = true
+    this.transcriptionData = entries
+    this.chunkCount = session.chunkCount
+    this.chunkQueue.reset(session.chunkCount + 1)
+    this.recordingStartTime = session.startedAt
+    this.lastChunkTime = session.lastChunkTime
+    this.playbackTimeline.reset()
+    session.playbackAnchors.forEach(anchor => this.playbackTimeline.addAnchor(anchor))
+    await this.loadSettings()
+  }
+
+  private async loadSettings() {
+    this.stopWatchingSettings()
+    this.settings = await getSettings()
+    this.provider = null
+
+    const unwatch = watchSettings((settings) => {
+      this.settings = settings
+    })
+    // The provider reads keys from the popup as well as the settings object
+    const onStorageChanged = () => {
+      this.provider = null
+    }
+    chrome.storage.onChanged.addListener(onStorageChanged)
+    this.unwatchSettings = () => {
+      unwatch()
+      chrome.storage.onChanged.removeListener(onStorageChanged)
+    }
+  }
+
+  private getProvider(): Promise<{ provider: SpeechProvider; status: ProviderStatus }> {
+    if (this.provider) return this.provider
+
+    const configured = (async () => {
+      const provider = await getSpeechProvider()
+      const status = await provider.configure({ channel: this.session?.video?.channel })
+      return { provider, status }
+    })()
+    // A failed read is tried again with the next chunk
+    configured.catch(() => {
+      if (this.provider === configured) this.provider = null
+    })
+    this.provider = configured
+    return configured
+  }
+
+  stopWatchingSettings() {
+    this.unwatchSettings?.()
+    this.unwatchSettings = null
+  }
+
+  // Record a snapshot of the video's playback state reported by the content script
+  recordPlayback(anchor: PlaybackAnchor) {
+    this.playbackTimeline.addAnchor(anchor)
+    if (this.isRecording) this.persistSession()
+  }
+
+  // Content script confirmed the recorder started - the first chunk begins here, not at the request
+  markCaptureStarted(wallTime: number) {
+    this.lastChunkTime = wallTime
+  }
+
+  // Map a chunk's wall-clock span onto the video's playback position in seconds, falling back
+  // to seconds since the session start when no video was found. Without a start time the chunk
+  // is assumed to pick up where the previous one ended.
+  chunkBounds(endWallTime: number = Date.now(), startWallTime: number = this.lastChunkTime): ChunkBounds {
+    const toSeconds = (time: number) => this.playbackTimeline.toVideoTime(time)
+      ?? Math.max(0, (time - this.recordingStartTime) / 1000)
+
+    const bounds = {
+      startTime: toSeconds(startWallTime),
+      endTime: toSeconds(endWallTime)
+    }
+    this.lastChunkTime = endWallTime
+    return bounds
+  }
+
+  async processAudioChunk(audioBlob: Blob, bounds: ChunkBounds, sampleRate?: number) {
+    this.chunkCount++
+    await this.persistSession()
+    console.log(`Tab ${this.tabId}: processing audio chunk ${this.chunkCount} at ${formatTimestamp(bounds.startTime)}, size: ${audioBlob.size} bytes`)
+    console.log(`Audio blob type: ${audioBlob.type}`)
+
+    // Add to buffer for context
+    this.audioBuffer.push(audioBlob)
+    
+    // Keep only last 3 chunks for context (prevents memory issues)
+    if (this.audioBuffer.length > 3) {
+      this.audioBuffer.shift()
+    }
+
+    const chunk: AudioChunk = {
+      audio: audioBlob,
+      timestamp: formatTimestamp(bounds.startTime),
+      startTime: bounds.startTime,
+      endTime: bounds.endTime,
+      sampleRate,
+      chunkNumber: this.chunkCount
+    }
+
+    // Requests run in parallel, but their entries are added strictly in chunk order
+    this.chunkQueue.push(chunk.chunkNumber, () => this.recognizeChunk(chunk))
+  }
+
+  // Run one chunk through the speech provider. Throws on failures worth retrying.
+  private async recognizeChunk(chunk: AudioChunk): Promise<NormalizedResult | null> {
+    const { provider, status } = await this.getProvider()
+    if (!status.ready) {
+      console.error(`${provider.label} is not configured:`, status.error)
+      return null
+    }
+
+    console.log(`Sending chunk ${chunk.chunkNumber} to ${provider.label}`)
+    console.log('Audio data size:', chunk.audio.size, 'bytes')
+    console.log('Audio data type:', chunk.audio.type)
+
+    const response = await provider.recognize(chunk)
+    if (!response) {
+      console.log(`❌ Chunk ${chunk.chunkNumber}: No transcription results`)
+      console.log('Possible reasons:')
+      console.log('- Audio contains only background noise/music')
+      console.log('- Audio chunk is too short for reliable recognition')
+      console.log('- Audio format is not properly decoded by the API')
+      console.log('- Chunk boundaries cut through speech')
+      return null
+    }
+
+    return provider.normalize(response, chunk)
+  }
+
+  // Called by the queue in chunk order, so stitching always sees the entry that really came before
+  private async addRecognizedEntries(chunkNumber: number, result: NormalizedResult | null) {
+    if (!result) return
+
+    const { entries, confidence } = result
+    try {
+      for (const recognized of entries) {
+        // Segments overlap, so drop words the previous entry already ended with
+        const entry = stitchOverlap(this.transcriptionData[this.transcriptionData.length - 1], recognized)
+        if (!entry) {
+          console.log(`Chunk ${recognized.chunkNumber}: fully covered by the previous overlap, skipping`)
+          continue
+        }
+
+        await this.translate([entry])
+        this.transcriptionData.push(entry)
+        console.log(`✅ Tab ${this.tabId} [${entry.timestamp}] (confidence: ${confidence.toFixed(2)}): ${entry.text}`)
+        await this.persistEntry(entry)
+
+        // Send message to popup about processed chunk, and to the tab for its live captions
+        const chunkMessage: ChunkProcessedMessage = {
+          type: 'chunkProcessed',
+          tabId: this.tabId,
+          chunkNumber: entry.chunkNumber,
+          language: entry.language,
+          text: entry.text,
+          words: entry.words,
+          confidence: confidence
+        }
+        sendMessage(chunkMessage)
+        this.notifyTab(chunkMessage)
+
+        // Entries are already autosaved to IndexedDB above; downloading snapshots on top of
+        // that is opt-in, since each one is a separate file in the Downloads folder
+        const { downloadSnapshots, snapshotInterval } = this.settings
+        if (downloadSnapshots && this.transcriptionData.length % snapshotInterval === 0) {
+          await this.saveTranscriptionFile()
+        }
+      }
+    } catch (error) {
+      console.error(`Error adding entries for chunk ${chunkNumber}:`, error)
+    }
+  }
+
+  // Take a whole transcript at once, e.g. from the video's captions, instead of recognizing chunks
+  async importEntries(entries: TranscriptionEntry[]) {
+    await this.translate(entries)
+    this.transcriptionData.push(...entries)
+    this.chunkCount = entries.length
+    if (!this.session) return
+
+    try {
+      await appendEntries(this.session.id, entries)
+    } catch (error) {
+      console.error('Failed to save imported entries:', error)
+    }
+    await this.persistSession()
+    sendMessage({ type: 'sessionUpdated', sessionId: this.session.id })
+  }
+
+  // A failed translation only costs the translation; the entry is kept either way
+  private async translate(entries: TranscriptionEntry[]) {
+    try {
+      await translateEntries(entries)
+    } catch (error) {
+      console.error('Failed to translate entries:', error)
+    }
+  }
+
+  // Finish the session: wait for outstanding chunks, then write the final export
+  async stop() {
+    this.isRecording = false
+    this.stopWatchingSettings()
+    
+    // Let chunks that are still being recognized land before the final export
+    await Promise.race([this.chunkQueue.onIdle(), new Promise(resolve => setTimeout(resolve, DRAIN_TIMEOUT_MS))])
+    
+    if (this.session) {
+      this.session.endedAt = Date.now()
+      await this.persistSession()
+    }
+    
+    // Save final transcription file
+    console.log('Saving final transcription file...')
+    await this.saveTranscriptionFile()
+  }
+
+  // Write the session's progress to IndexedDB, so a restarted service worker can resume it.
+  // Not broadcast: this runs on every pause and seek, and pages only care about new entries.
+  private async persistSession() {
+    if (!this.session) return
+
+    this.session.chunkCount = this.chunkCount
+    this.session.lastChunkTime = this.lastChunkTime
+    this.session.playbackAnchors = this.playbackTimeline.getAnchors()
+
+    try {
+      await saveSession(this.session)
+    } catch (error) {
+      console.error('Failed to save transcript session:', error)
+    }
+  }
+
+  private async persistEntry(entry: TranscriptionEntry) {
+    if (!this.session) return
+
+    try {
+      await appendEntry(this.session.id, entry)
+      sendMessage({ type: 'sessionUpdated', sessionId: this.session.id })
+    } catch (error) {
+      console.error('Failed to save transcript entry:', error)
+    }
+  }
+
+  getRelativeTimestamp(): string {
+    if (!this.recordingStartTime) return '00:00:00'
+    
+    return formatTimestamp((Date.now() - this.recordingStartTime) / 1000)
+  }
+
+  async saveTranscriptionFile() {
+    await downloadTranscript(
+      this.transcriptionData,
+      this.session,
+      await this.getVideoTitle(),
+      this.getRelativeTimestamp()
+    )
+  }
+
+  // The title the page gave when recording started; the tab title has the site's name mixed in
+  private async getVideoTitle(): Promise<string> {
+    if (this.session) return sanitizeTitle(this.session.videoTitle)
+
+    try {
+      const tab = await chrome.tabs.get(this.tabId)
+      if (tab?.title) {
+        return sanitizeTitle(tab.title)
+      }
+    } catch {
+      // Tab already closed
+    }
+    return 'video'
+  }
+}
+
+// Keeps one TabTranscription per recording tab, so several videos can be transcribed side by side
+class UniversalTranscriptionService {
+  private tabs = new Map<number, TabTranscription>()
+
+  // Public getter to check recording state
+  get recording(): boolean {
+    return this.activeSessions.length > 0
+  }
+
+  get activeSessions(): ActiveSession[] {
+    return [...this.tabs.values()]
+      .filter(transcription => transcription.recording)
+      .map(transcription => transcription.summary)
+  }
+
+  // The recording in a tab, if there is one
+  forTab(tabId: number | undefined): TabTranscription | null {
+    return tabId === undefined ? null : this.tabs.get(tabId) || null
+  }
+
   // Check if required APIs are available
   private checkApiAvailability(): { available: boolean; missing: string[] } {
     const missing: string[] = []
     
     if (!chrome.tabCapture) {
       missing.push('chrome.tabCapture')
-    } else if (!chrome.tabCapture.capture) {
-      missing.push('chrome.tabCapture.capture')
+    } else if (!chrome.tabCapture.getMediaStreamId) {
+      missing.push('chrome.tabCapture.getMediaStreamId')
+    }
+    
+    if (!chrome.offscreen) {
+      missing.push('chrome.offscreen')
     }
     
     if (!chrome.downloads) {
@@ -64,33 +444,26 @@ class UniversalTranscriptionService {
     }
   }
 
-  async startRecording(tabId: number) {
-    if (this.isRecording) return
-
-    const apiKey = await storage.get("google_api_key")
-    if (!apiKey) {
-      this.showNotification('API Key Required', 'Please add your Google Cloud API key in the extension popup')
-      return
-    }
+  // captionTrackId picks one of the tab's caption tracks over speech recognition
+  async startRecording(tabId: number, captionTrackId?: string) {
+    if (this.tabs.get(tabId)?.recording) return
 
     try {
       console.log('Starting recording for tab:', tabId)
       
-      // Make sure we're capturing the right tab
-      this.currentTabId = tabId
-      
       // First, let's check if the tab is still valid
       const tab = await chrome.tabs.get(tabId)
       console.log('Target tab info:', tab.url, tab.status)
       
-      if (!tab.url?.includes('youtube.com')) {
-        throw new Error('Selected tab is not a YouTube page')
+      if (!isSupportedUrl(tab.url)) {
+        throw new Error('Selected tab is not a web page')
       }
       
       // Test if content script is reachable
       console.log('Testing content script connection...')
+      let pingResponse: ResponseFor<'ping'>
       try {
-        const pingResponse = await this.sendMessageToTabWithResponse(tabId, { type: 'ping' })
+        pingResponse = await sendTabMessage(tabId, { type: 'ping' })
         console.log('Content script ping response:', pingResponse)
         
         if (!pingResponse || !pingResponse.success) {
@@ -98,42 +471,162 @@ class UniversalTranscriptionService {
         }
       } catch (pingError) {
         console.error('Content script ping failed:', pingError)
-        throw new Error('Content script is not reachable. Please refresh the YouTube page and try again.')
+        throw new Error('Content script is not reachable. Please refresh the page and try again.')
       }
       
-      this.recordingStartTime = Date.now()
-      this.isRecording = true
-      this.transcriptionData = []
-      this.chunkCount = 0
+      if (!pingResponse.video) {
+        throw new Error('No video found on this page')
+      }
+      console.log(`Recording ${pingResponse.site} video:`, pingResponse.video.title)
+      
+      // Captions need no recording or recognition at all
+      const captions = await this.findCaptions(tabId, captionTrackId)
+      if (captions) {
+        await this.importCaptions(tab, pingResponse.video, captions.track, captions.cues)
+        return
+      }
+      
+      const provider = await getSpeechProvider()
+      const status = await provider.configure()
+      if (!status.ready) {
+        chrome.action.setBadgeText({ text: '', tabId })
+        this.showNotification('Speech Provider Not Configured', status.error || `${provider.label} is not configured`)
+        return
+      }
+      
+      const transcription = this.createTranscription(tabId)
+      await transcription.start(tab, pingResponse.video)
+      
+      // Without tabCapture the content script falls back to asking for a screen share
+      const tabCapture = await this.startTabCapture(tabId)
       
       // Notify content script to start recording
       console.log('Sending startRecording message to content script...')
-      this.sendMessageToTab(tabId, { type: 'startRecording' })
+      this.sendMessageToTab(tabId, { type: 'startRecording', tabCapture })
       
       // Send message to popup about recording state
-      chrome.runtime.sendMessage({ type: 'recordingState', isRecording: true })
+      sendMessage({ type: 'recordingState', isRecording: true, tabId })
       
       // Show notification that recording started
-      this.showNotification('Recording Started', 'YouTube transcription starting. You may see a screen share prompt.')
+      this.showNotification('Recording Started', tabCapture
+        ? 'Transcription starting.'
+        : 'Transcription starting. You may see a screen share prompt.')
       
-      console.log('Recording initiated via content script')
+      console.log(`Recording initiated via ${tabCapture ? 'tabCapture' : 'content script'}`)
       
     } catch (error) {
       console.error('Failed to start recording:', error)
-      this.handleRecordingError(error)
+      this.handleRecordingError(tabId, error)
     }
   }
 
-  private handleRecordingError(error: any) {
-    this.isRecording = false
+  private createTranscription(tabId: number): TabTranscription {
+    const transcription = new TabTranscription(tabId, (message) => this.sendMessageToTab(tabId, message))
+    this.tabs.set(tabId, transcription)
+    return transcription
+  }
+
+  // Captions to use instead of speech recognition: the track picked in the popup, or in hybrid
+  // mode the best one the video has. Null means record and recognize the audio as usual.
+  private async findCaptions(tabId: number, trackId?: string): Promise<{ track: CaptionTrack; cues: CaptionCue[] } | null> {
+    const source = (await storage.get<TranscriptSource>("transcript_source")) || DEFAULT_TRANSCRIPT_SOURCE
+    if (!trackId && source !== 'hybrid') return null
+
+    try {
+      const { tracks } = await sendTabMessage(tabId, { type: 'getCaptionTracks' })
+      const track = trackId
+        ? tracks.find(candidate => candidate.id === trackId)
+        : pickCaptionTrack(tracks, (await storage.get("primary_language")) || DEFAULT_PRIMARY_LANGUAGE)
+      if (!track) {
+        console.log('No caption track to use, falling back to speech recognition')
+        return null
+      }
+
+      const response = await sendTabMessage(tabId, { type: 'loadCaptions', trackId: track.id })
+      if (!response?.success || !response.cues?.length) {
+        throw new Error(response?.error || 'Caption track is empty')
+      }
+      return { track, cues: response.cues }
+    } catch (error) {
+      console.warn('⚠️ Captions unavailable, falling back to speech recognition:', error)
+      return null
+    }
+  }
+
+  // Save a caption track as a finished session right away
+  private async importCaptions(tab: chrome.tabs.Tab, video: VideoMetadata, track: CaptionTrack, cues: CaptionCue[]) {
+    console.log(`📝 Using ${cues.length} cues from caption track "${track.label}"`)
+
+    const transcription = this.createTranscription(tab.id)
+    await transcription.start(tab, video)
+    await transcription.importEntries(cuesToEntries(cues, track.languageCode))
+
+    this.tabs.delete(tab.id)
+    await transcription.stop()
+    await pruneSessions().catch(error => console.error('Failed to prune old sessions:', error))
+
+    chrome.action.setBadgeText({ text: '', tabId: tab.id })
+    sendMessage({ type: 'recordingState', isRecording: false, tabId: tab.id })
+    this.showNotification('Captions Saved', `Used the video's "${track.label}" captions - no speech recognition needed.`)
+  }
+
+  // Record the tab's audio in the offscreen document, without the screen-share picker.
+  // Resolves to false when that isn't possible here, e.g. the tab wasn't opened through a user gesture.
+  private async startTabCapture(tabId: number): Promise<boolean> {
+    if (!isTabCaptureSupported()) return false
+
+    try {
+      const streamId = await getTabStreamId(tabId)
+      await ensureOffscreenDocument()
+      
+      // The offscreen document can't read storage, so it gets the settings it needs here
+      const settings = await getSettings()
+      const response = await sendMessage({
+        type: 'startTabCapture',
+        tabId,
+        streamId,
+        vadEnabled: settings.vadEnabled,
+        audioEncoding: settings.audioEncoding,
+        segmentLengthMs: settings.segmentLengthSeconds * 1000,
+        audioBitrate: settings.audioBitrateKbps * 1000
+      })
+      if (!response?.success) {
+        throw new Error(response?.error || 'Offscreen document did not respond')
+      }
+      return true
+    } catch (error) {
+      console.warn('⚠️ Tab capture unavailable, falling back to screen sharing:', error)
+      return false
+    }
+  }
+
+  // Stop the tab's offscreen recording, if it has one, and close the document once it's idle
+  private async stopTabCapture(tabId: number) {
+    if (!(await hasOffscreenDocument())) return
+
+    try {
+      const response = await sendMessage({ type: 'stopTabCapture', tabId })
+      if (response?.activeCaptures === 0) {
+        await closeOffscreenDocument()
+      }
+    } catch (error) {
+      console.error('Failed to stop tab capture:', error)
+    }
+  }
+
+  handleRecordingError(tabId: number, error: any) {
+    this.tabs.get(tabId)?.stopWatchingSettings()
+    this.tabs.delete(tabId)
+    this.stopTabCapture(tabId)
     
     const errorMessage = error.message || 'Unknown error occurred'
     console.error('Recording error:', errorMessage)
     
     // Send error message to popup
-    chrome.runtime.sendMessage({ 
+    sendMessage({ 
       type: 'recordingError', 
-      error: errorMessage
+      error: errorMessage,
+      tabId
     })
     
     // Show notification
@@ -153,647 +646,454 @@ class UniversalTranscriptionService {
     }
   }
 
-  private sendMessageToTab(tabId: number, message: any) {
-    try {
-      chrome.tabs.sendMessage(tabId, message, (response) => {
-        if (chrome.runtime.lastError) {
-          console.log('Failed to send message to tab:', chrome.runtime.lastError.message)
-          
-          // If it's a connection error, the content script might have been reloaded
-          if (chrome.runtime.lastError.message.includes('Receiving end does not exist')) {
-            console.log('Content script connection lost. This usually means:')
-            console.log('- The YouTube page was refreshed')
-            console.log('- The user navigated to a different page')
-            console.log('- The content script was reloaded')
-            
-            // Try to re-establish connection by checking if tab still exists
-            chrome.tabs.get(tabId, (tab) => {
-              if (chrome.runtime.lastError) {
-                console.log('Tab no longer exists, stopping recording')
-                this.stopRecording()
-              } else if (tab.url?.includes('youtube.com')) {
-                console.log('Tab still exists, content script may need to be re-injected')
-                // The content script should re-inject itself on page load
-              }
-            })
-          }
-        }
-      })
-    } catch (error) {
-      console.log('Error sending message to tab:', error)
-    }
-  }
-
-  private async sendMessageToTabWithResponse(tabId: number, message: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      try {
-        chrome.tabs.sendMessage(tabId, message, (response) => {
+  private sendMessageToTab(tabId: number, message: ExtensionMessage) {
+    sendTabMessage(tabId, message).catch((error: Error) => {
+      console.log('Failed to send message to tab:', error.message)
+      
+      // If it's a connection error, the content script might have been reloaded
+      if (error.message.includes('Receiving end does not exist')) {
+        console.log('Content script connection lost. This usually means:')
+        console.log('- The page was refreshed')
+        console.log('- The user navigated to a different page')
+        console.log('- The content script was reloaded')
+        
+        // Try to re-establish connection by checking if tab still exists
+        chrome.tabs.get(tabId, (tab) => {
           if (chrome.runtime.lastError) {
-            reject(new Error(chrome.runtime.lastError.message))
-          } else {
-            resolve(response)
+            console.log('Tab no longer exists, stopping recording')
+            this.stopRecording(tabId)
+          } else if (isSupportedUrl(tab.url)) {
+            console.log('Tab still exists, content script may need to be re-injected')
+            // The content script should re-inject itself on page load
           }
         })
-      } catch (error) {
-        reject(error)
       }
     })
   }
 
-  async processWebMChunk(audioBlob: Blob, timestamp: string) {
-    this.chunkCount++
-    console.log(`Processing WebM chunk ${this.chunkCount} at ${timestamp}, size: ${audioBlob.size} bytes`)
-    console.log(`Audio blob type: ${audioBlob.type}`)
-
-    // Add to buffer for context
-    this.audioBuffer.push(audioBlob)
-    
-    // Keep only last 3 chunks for context (prevents memory issues)
-    if (this.audioBuffer.length > 3) {
-      this.audioBuffer.shift()
-    }
-
-    // Process the current chunk with context from previous chunks
-    await this.processChunkWithContext(audioBlob, timestamp)
-  }
-
-  private async processChunkWithContext(audioBlob: Blob, timestamp: string) {
-    try {
-             const apiKey = await storage.get("google_api_key")
-      if (!apiKey) {
-        console.error('No API key available')
-        return
-      }
-
-      console.log('API key available, length:', apiKey.length)
-      
-      // Convert blob to base64
-      const base64Data = await this.blobToBase64(audioBlob)
-      console.log('Base64 data length:', base64Data.length, 'characters')
-      console.log('First 100 chars of base64:', base64Data.substring(0, 100))
-
-      // Use explicit configuration that works with WebM Opus:
-      // - encoding: WEBM_OPUS (what MediaRecorder produces)
-      // - sampleRateHertz: 48000 (WebM Opus standard)
-      // - audioChannelCount: 2 (stereo, matches MediaRecorder output)
-      // - Enhanced model for better video transcription
-      const requestBody = {
-        config: {
-          encoding: 'WEBM_OPUS',
-          sampleRateHertz: 48000, // Explicitly set to WebM Opus standard
-          audioChannelCount: 2,    // Explicitly set to stereo
-          enableSeparateRecognitionPerChannel: false,
-          languageCode: 'en-US',
-          enableAutomaticPunctuation: true,
-          model: 'video',
-          useEnhanced: true,       // Use enhanced model for video content
-          maxAlternatives: 1
-        },
-        audio: {
-          content: base64Data
-        }
-      }
-
-      // If we're using Vorbis codec, adjust the configuration
-      if (audioBlob.type.includes('vorbis')) {
-        console.log('Detected Vorbis codec, using VORBIS encoding...')
-        requestBody.config.encoding = 'WEBM_VORBIS'
-        // Vorbis typically works better with auto-detection
-        delete requestBody.config.sampleRateHertz
-        delete requestBody.config.audioChannelCount
-      }
-
-      console.log('Sending audio to Google Speech API with config:', requestBody.config)
-      console.log('Audio data size:', audioBlob.size, 'bytes')
-      console.log('Audio data type:', audioBlob.type)
-
-      const response = await fetch(`https://speech.googleapis.com/v1/speech:recognize?key=${apiKey}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody)
-      })
-
-      console.log('Google Speech API response status:', response.status)
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()))
-
-      if (response.ok) {
-        const result = await response.json()
-        console.log('Google Speech API response for WebM:', result)
-        console.log('Response details:')
-        console.log('- Status:', response.status)
-        console.log('- Results count:', result.results ? result.results.length : 'undefined')
-        console.log('- Total billed time:', result.totalBilledTime)
-        console.log('- Request ID:', result.requestId)
-
-        if (result.results && result.results.length > 0 && result.results[0].alternatives) {
-          const transcription = result.results[0].alternatives[0].transcript
-          const confidence = result.results[0].alternatives[0].confidence || 0
-
-          if (transcription && transcription.trim().length > 0) {
-            const entry: TranscriptionEntry = {
-              timestamp,
-              text: transcription.trim(),
-              language: 'en-US',
-              chunkNumber: this.chunkCount
-            }
-
-            this.transcriptionData.push(entry)
-            console.log(`✅ WebM [${timestamp}] (confidence: ${confidence.toFixed(2)}): ${transcription}`)
-
-            // Send message to popup about processed chunk
-            chrome.runtime.sendMessage({
-              type: 'chunkProcessed',
-              chunkNumber: this.chunkCount,
-              language: 'en-US',
-              text: transcription,
-              confidence: confidence
-            })
-
-            // Auto-save every 5 successful chunks
-            if (this.transcriptionData.length % 5 === 0) {
-              await this.saveTranscriptionFile()
-            }
-          } else {
-            console.log(`WebM Chunk ${this.chunkCount}: Empty transcription result`)
-            console.log('This suggests the API processed the audio but found no speech content')
-          }
-        } else {
-          console.log(`❌ WebM Chunk ${this.chunkCount}: No transcription results`)
-          console.log('Possible reasons:')
-          console.log('- Audio contains only background noise/music')
-          console.log('- Audio chunk is too short for reliable recognition')
-          console.log('- Audio format is not properly decoded by the API')
-          console.log('- Chunk boundaries cut through speech')
-          
-          if (result) {
-            console.log('Full WebM API response for debugging:', JSON.stringify(result, null, 2))
-          }
-
-          // If we get a 200 response but no results, try one more time without sample rate specification
-          console.log('Got 200 response but no results. Trying without sample rate specification...')
-          const noSampleRateBody = {
-            config: {
-              encoding: 'WEBM_OPUS',
-              // No sampleRateHertz - let API infer from audio
-              audioChannelCount: 2,
-              enableSeparateRecognitionPerChannel: false,
-              languageCode: 'en-US',
-              enableAutomaticPunctuation: true,
-              model: 'video',
-              useEnhanced: true,
-              maxAlternatives: 1
-            },
-            audio: { content: base64Data }
-          }
-
-          const noSampleRateResp = await fetch(`https://speech.googleapis.com/v1/speech:recognize?key=${apiKey}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(noSampleRateBody)
-          })
-
-          console.log('No sample rate fallback status:', noSampleRateResp.status)
-          if (noSampleRateResp.ok) {
-            const noSampleRateResult = await noSampleRateResp.json()
-            console.log('No sample rate fallback response:', noSampleRateResult)
-
-            // Process the fallback result if it has transcription
-            if (noSampleRateResult.results && noSampleRateResult.results.length > 0 && noSampleRateResult.results[0].alternatives) {
-              const transcription = noSampleRateResult.results[0].alternatives[0].transcript
-              const confidence = noSampleRateResult.results[0].alternatives[0].confidence || 0
-
-              if (transcription && transcription.trim().length > 0) {
-                const entry: TranscriptionEntry = {
-                  timestamp,
-                  text: transcription.trim(),
-                  language: 'en-US',
-                  chunkNumber: this.chunkCount
-                }
-
-                this.transcriptionData.push(entry)
-                console.log(`✅ WebM No-Sample-Rate Fallback [${timestamp}] (confidence: ${confidence.toFixed(2)}): ${transcription}`)
-
-                // Send message to popup about processed chunk
-                chrome.runtime.sendMessage({
-                  type: 'chunkProcessed',
-                  chunkNumber: this.chunkCount,
-                  language: 'en-US',
-                  text: transcription,
-                  confidence: confidence
-                })
-
-                // Auto-save every 5 successful chunks
-                if (this.transcriptionData.length % 5 === 0) {
-                  await this.saveTranscriptionFile()
-                }
-              }
-            }
-          } else {
-            console.log('No sample rate fallback failed:', await noSampleRateResp.text())
-          }
-        }
-      } else {
-        const errorText = await response.text()
-        console.error('Google Speech API error for WebM:', response.status, errorText)
-        console.log('Error analysis:')
-        console.log('- HTTP status:', response.status)
-        console.log('- Error message:', errorText)
-
-        // If we see a channel count complaint, try once more with channelCount unset.
-        if (errorText.includes('audio_channel_count')) {
-          console.log('Retrying without audioChannelCount to let API infer...')
-          const retryBody = {
-            config: {
-              encoding: 'WEBM_OPUS',
-              languageCode: 'en-US',
-              enableAutomaticPunctuation: true,
-              model: 'video',
-              useEnhanced: true,
-              maxAlternatives: 1
-            },
-            audio: { content: base64Data }
-          }
-          const retryResp = await fetch(`https://speech.googleapis.com/v1/speech:recognize?key=${apiKey}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(retryBody)
-          })
-          console.log('Retry status:', retryResp.status)
-          if (retryResp.ok) {
-            const retryResult = await retryResp.json()
-            console.log('Retry response:', retryResult)
-          } else {
-            console.log('Retry failed:', await retryResp.text())
-          }
-        }
-
-        // If we see a sample rate complaint, try with 44.1kHz as fallback
-        if (errorText.includes('sample rate') || errorText.includes('Opus sample rate')) {
-          console.log('Retrying with 44.1kHz sample rate as fallback...')
-          const fallbackBody = {
-            config: {
-              encoding: 'WEBM_OPUS',
-              sampleRateHertz: 44100, // Try 44.1kHz as fallback
-              audioChannelCount: 2,
-              enableSeparateRecognitionPerChannel: false,
-              languageCode: 'en-US',
-              enableAutomaticPunctuation: true,
-              model: 'video',
-              useEnhanced: true,
-              maxAlternatives: 1
-            },
-            audio: { content: base64Data }
-          }
-          const fallbackResp = await fetch(`https://speech.googleapis.com/v1/speech:recognize?key=${apiKey}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(fallbackBody)
-          })
-          console.log('Fallback status:', fallbackResp.status)
-          if (fallbackResp.ok) {
-            const fallbackResult = await fallbackResp.json()
-            console.log('Fallback response:', fallbackResult)
-
-            // Process the fallback result if it has transcription
-            if (fallbackResult.results && fallbackResult.results.length > 0 && fallbackResult.results[0].alternatives) {
-              const transcription = fallbackResult.results[0].alternatives[0].transcript
-              const confidence = fallbackResult.results[0].alternatives[0].confidence || 0
-
-              if (transcription && transcription.trim().length > 0) {
-                const entry: TranscriptionEntry = {
-                  timestamp,
-                  text: transcription.trim(),
-                  language: 'en-US',
-                  chunkNumber: this.chunkCount
-                }
-
-                this.transcriptionData.push(entry)
-                console.log(`✅ WebM Fallback [${timestamp}] (confidence: ${confidence.toFixed(2)}): ${transcription}`)
-
-                // Send message to popup about processed chunk
-                chrome.runtime.sendMessage({
-                  type: 'chunkProcessed',
-                  chunkNumber: this.chunkCount,
-                  language: 'en-US',
-                  text: transcription,
-                  confidence: confidence
-                })
-
-                // Auto-save every 5 successful chunks
-                if (this.transcriptionData.length % 5 === 0) {
-                  await this.saveTranscriptionFile()
-                }
-              }
-            }
-          } else {
-            console.log('Fallback failed:', await fallbackResp.text())
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error processing WebM chunk:', error)
-    }
-  }
-
-  async stopRecording() {
-    console.log('stopRecording called, isRecording:', this.isRecording)
-    if (!this.isRecording) {
+  async stopRecording(tabId: number) {
+    const transcription = this.tabs.get(tabId)
+    console.log(`stopRecording called for tab ${tabId}, isRecording:`, !!transcription?.recording)
+    if (!transcription?.recording) {
       console.log('Not recording, returning early')
       return
     }
 
-    console.log('Stopping recording, transcription data length:', this.transcriptionData.length)
-
-    // Stop MediaRecorder if it was created in background script
-    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
-      this.mediaRecorder.stop()
-      this.mediaRecorder.stream.getTracks().forEach(track => track.stop())
-    }
+    // Removed up front so a second stop request for the same tab is a no-op
+    this.tabs.delete(tabId)
 
     // Tell content script to stop recording
-    if (this.currentTabId) {
-      this.sendMessageToTab(this.currentTabId, { type: 'stopRecording' })
-    }
+    this.sendMessageToTab(tabId, { type: 'stopRecording' })
+    await this.stopTabCapture(tabId)
 
-    this.isRecording = false
-    
-    // Save final transcription file
-    console.log('Saving final transcription file...')
-    await this.saveTranscriptionFile()
+    await transcription.stop()
+    await pruneSessions().catch(error => console.error('Failed to prune old sessions:', error))
     
     // Notify content script about state change
-    if (this.currentTabId) {
-      this.sendMessageToTab(this.currentTabId, { type: 'recordingState', isRecording: false })
-    }
+    this.sendMessageToTab(tabId, { type: 'recordingState', isRecording: false })
     
     // Send message to popup about recording state
-    chrome.runtime.sendMessage({ type: 'recordingState', isRecording: false })
+    sendMessage({ type: 'recordingState', isRecording: false, tabId })
     
     // Show notification that recording stopped
     this.showNotification('Recording Stopped', 'Transcription completed. Check your downloads for the transcript file.')
     
-    console.log('Auto transcription stopped')
+    console.log(`Auto transcription stopped for tab ${tabId}`)
   }
 
-  getRelativeTimestamp(): string {
-    if (!this.recordingStartTime) return '00:00:00'
-    
-    const elapsed = Date.now() - this.recordingStartTime
-    const seconds = Math.floor(elapsed / 1000)
-    const minutes = Math.floor(seconds / 60)
-    const hours = Math.floor(minutes / 60)
-    
-    return `${hours.toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`
-  }
+  // Runs whenever the service worker starts. A session without an end time was cut short by
+  // the worker being stopped: if its tab is still capturing, carry on where it left off,
+  // otherwise flag it as interrupted so the popup can offer to export it.
+  async recoverSessions() {
+    let unfinished: SessionSummary[]
+    try {
+      unfinished = await listUnfinishedSessions()
+    } catch (error) {
+      console.error('Failed to load unfinished sessions:', error)
+      return
+    }
 
-  private async saveTranscriptionFile() {
-    console.log('saveTranscriptionFile called, data length:', this.transcriptionData.length)
-    
-    const content = this.formatTranscription()
-    
-    // Convert content directly to data URL since URL.createObjectURL is not available in background script
-    const dataUrl = `data:text/plain;charset=utf-8,${encodeURIComponent(content)}`
-    
-    const videoTitle = await this.getVideoTitle()
-    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-')
-    const filename = `transcript-${videoTitle}-${timestamp}.txt`
+    let interruptedCount = 0
+    for (const session of unfinished) {
+      if (session.interrupted) continue
 
+      const tabId = session.tabId
+      if (tabId !== null && !this.tabs.has(tabId) && await this.isTabRecording(tabId)) {
+        const stored = await getSession(session.id)
+        if (stored) {
+          await this.createTranscription(tabId).resume(stored)
+          continue
+        }
+      }
+
+      console.log(`Session ${session.id} was interrupted with ${session.entryCount} entries`)
+      session.interrupted = true
+      await saveSession(session)
+      interruptedCount++
+    }
+
+    if (interruptedCount > 0) {
+      this.showNotification('Unfinished Transcript Recovered', 'Open the extension popup to export it.')
+    }
+  }
+
+  private async isTabRecording(tabId: number): Promise<boolean> {
     try {
-      chrome.downloads.download({
-        url: dataUrl,
-        filename: filename,
-        saveAs: false
-      })
+      const response = await sendTabMessage(tabId, { type: 'getRecordingState' })
+      return !!response?.isRecording
+    } catch {
+      return false
+    }
+  }
 
-      console.log(`Saved transcription: ${filename}`)
-      
-      // Send message to popup about saved file
-      chrome.runtime.sendMessage({
-        type: 'fileSaved',
-        filename: filename
-      })
-    } catch (error) {
-      console.error('Failed to download file:', error)
+  // Download the transcript so far without stopping - the tab's recording, or else the latest session
+  async exportNow(tabId?: number) {
+    const transcription = this.forTab(tabId)
+    if (transcription?.recording) {
+      await transcription.saveTranscriptionFile()
+      return
+    }
+
+    const [latest] = await listSessionSummaries()
+    if (latest) {
+      await this.exportSession(latest.id)
+    } else {
+      console.log('No transcript to export')
     }
   }
 
-  private formatTranscription(): string {
-    let content = `YouTube Video Transcription\n`
-    content += `Generated: ${new Date().toISOString()}\n`
-    content += `Total Segments: ${this.transcriptionData.length}\n`
-    content += `Session Duration: ${this.getRelativeTimestamp()}\n`
-    content += `\n${'='.repeat(60)}\n\n`
+  // Download a stored session's transcript and mark it finished if it was interrupted
+  async exportSession(sessionId: string) {
+    const session = await getSession(sessionId)
+    if (!session) {
+      console.warn('No session to export:', sessionId)
+      return
+    }
 
-    if (this.transcriptionData.length === 0) {
-      content += `No transcription data captured.\n`
-      content += `This could be due to:\n`
-      content += `- Silent or very quiet audio\n`
-      content += `- Audio format not supported by Speech-to-Text API\n`
-      content += `- Network issues with the transcription service\n`
-      content += `- YouTube video without clear speech\n`
-      content += `- Audio encoding mismatch (try different browsers)\n`
-      return content
+    await downloadTranscript(
+      session.entries,
+      session,
+      sanitizeTitle(session.videoTitle),
+      formatTimestamp(((session.endedAt ?? session.lastChunkTime) - session.startedAt) / 1000)
+    )
+
+    if (session.endedAt === null && !this.activeSessions.some(active => active.sessionId === session.id)) {
+      session.endedAt = session.lastChunkTime
+      await saveSession(session)
+      sendMessage({ type: 'sessionUpdated', sessionId: session.id })
     }
+  }
+}
 
-    // Show chronological transcript
-    content += `--- TRANSCRIPT ---\n\n`
-    this.transcriptionData.forEach((entry) => {
-      content += `[${entry.timestamp}]: ${entry.text}\n\n`
+// Format entries in the chosen output format and download them
+async function downloadTranscript(
+  entries: TranscriptionEntry[],
+  session: SessionRecord | null,
+  videoTitle: string,
+  sessionDuration: string
+) {
+  console.log('Saving transcript, data length:', entries.length)
+  
+  const format = (await storage.get<TranscriptFormat>("output_format")) || DEFAULT_TRANSCRIPT_FORMAT
+  const translationOutput = (await storage.get<TranslationOutput>("translation_output")) || DEFAULT_TRANSLATION_OUTPUT
+  const lowConfidenceThreshold = (await storage.get<number>("low_confidence_threshold")) ?? DEFAULT_CONFIDENCE_SETTINGS.threshold
+  const content = formatTranscript(format, entries, {
+    generatedAt: new Date().toISOString(),
+    sessionDuration,
+    video: session?.video,
+    recordedRange: session ? getRecordedRange(session) : undefined
+  }, { translationOutput, speakerNames: session?.speakerNames, lowConfidenceThreshold })
+  
+  // Convert content directly to data URL since URL.createObjectURL is not available in background script
+  const dataUrl = `data:${getFormatMimeType(format)};charset=utf-8,${encodeURIComponent(content)}`
+  
+  const { filenamePattern } = await getSettings()
+  const filename = `${formatFilename(filenamePattern, { title: videoTitle, date: new Date() })}.${format}`
+
+  try {
+    chrome.downloads.download({
+      url: dataUrl,
+      filename: filename,
+      saveAs: false
     })
 
-    return content
+    console.log(`Saved transcription: ${filename}`)
+    
+    // Send message to popup about saved file
+    sendMessage({
+      type: 'fileSaved',
+      filename: filename
+    })
+  } catch (error) {
+    console.error('Failed to download file:', error)
   }
+}
 
-  private async getVideoTitle(): Promise<string> {
-    try {
-      if (this.currentTabId) {
-        const tab = await chrome.tabs.get(this.currentTabId)
-        if (tab?.title) {
-          return tab.title
-            .replace(' - YouTube', '')
-            .replace(/[^\w\s-]/g, '')
-            .slice(0, 50)
-        }
-      }
-      return 'video'
-    } catch {
-      return 'video'
-    }
+// The stretch of video played while recording, for sessions that followed a player
+function getRecordedRange(session: SessionRecord): { start: number; end: number } | undefined {
+  const timeline = new PlaybackTimeline()
+  session.playbackAnchors.forEach(anchor => timeline.addAnchor(anchor))
+  return timeline.getPlayedRange(session.endedAt ?? session.lastChunkTime) || undefined
+}
+
+// Make a video title safe to use in a download filename
+function sanitizeTitle(title: string): string {
+  return title
+    .replace(' - YouTube', '')
+    .replace(/[^\w\s-]/g, '')
+    .slice(0, 50)
+}
+
+// Decode a (data URL or bare) base64 payload from the content script into a Blob
+function base64ToBlob(audioData: string, mimeType: string): Blob {
+  const base64Data = audioData.split(',')[1] || audioData
+  const binaryData = atob(base64Data)
+  const bytes = new Uint8Array(binaryData.length)
+  for (let i = 0; i < binaryData.length; i++) {
+    bytes[i] = binaryData.charCodeAt(i)
   }
+  return new Blob([bytes], { type: mimeType })
+}
 
-  private blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve) => {
-      const reader = new FileReader()
-      reader.onloadend = () => resolve(reader.result as string)
-      reader.readAsDataURL(blob)
-    })
+// Whether the tab's content script found a video on the page
+async function hasVideo(tab: chrome.tabs.Tab): Promise<boolean> {
+  if (!isSupportedUrl(tab.url)) return false
+
+  try {
+    const response = await sendTabMessage(tab.id, { type: 'ping' })
+    return !!response?.video
+  } catch {
+    return false
   }
 }
 
 // Initialize service
 const transcriptionService = new UniversalTranscriptionService()
 
+// Messages that touch session state wait for this, so a chunk that woke the worker
+// lands in the recovered session rather than a blank one
+const sessionRecovery = transcriptionService.recoverSessions()
+
+// The offscreen document can't watch storage, so a new segment length is passed on to it
+watchSettings(async (settings) => {
+  if (!(await hasOffscreenDocument())) return
+
+  sendMessage({ type: 'setSegmentLength', segmentLengthMs: settings.segmentLengthSeconds * 1000 })
+    .catch(error => console.error('Failed to update tab capture segment length:', error))
+})
+
 console.log('Background script loaded and running')
 
 // Log available APIs on startup
 console.log('Chrome APIs available:', {
   tabCapture: !!chrome.tabCapture,
-  'tabCapture.capture': !!(chrome.tabCapture?.capture),
+  'tabCapture.getMediaStreamId': !!(chrome.tabCapture?.getMediaStreamId),
+  offscreen: !!chrome.offscreen,
   downloads: !!chrome.downloads,
   notifications: !!chrome.notifications,
   tabs: !!chrome.tabs
 })
 
-// Handle messages from popup
-chrome.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
+// Handle messages from the popup, extension pages and the content script
+onMessage(async (message, sender, sendResponse) => {
   console.log('Background received message:', message)
   
-  if (message.type === 'test') {
-    console.log('Test message received, sending response')
-    sendResponse({ success: true, message: 'Background script is working' })
-  } else if (message.type === 'getRecordingState') {
-    console.log('Getting recording state:', transcriptionService.recording)
-    sendResponse({ isRecording: transcriptionService.recording })
-  } else if (message.type === 'startRecording') {
-    console.log('Starting recording from popup request...')
-    
-    // First, check if the current active tab is a YouTube video
-    chrome.tabs.query({ active: true, currentWindow: true }, async (activeTabs) => {
-      if (activeTabs.length > 0) {
-        const currentTab = activeTabs[0]
+  // Content scripts speak for their own tab; the popup and offscreen document name the tab they mean
+  const tabId = getMessageTabId(message) ?? sender.tab?.id
+  
+  switch (message.type) {
+    case 'test':
+      console.log('Test message received, sending response')
+      sendResponse({ success: true, message: 'Background script is working' })
+      break
+
+    case 'getRecordingState': {
+      await sessionRecovery
+      const sessions = transcriptionService.activeSessions
+      console.log('Getting recording state:', sessions.length, 'active session(s)')
+      sendResponse({ isRecording: sessions.length > 0, sessions })
+      break
+    }
+
+    case 'startRecording': {
+      console.log('Starting recording from popup request...')
+      await sessionRecovery
+      
+      // First, check if the current active tab has a video to record
+      const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (currentTab) {
         console.log('Current active tab:', currentTab.id, currentTab.url)
         
-        if (currentTab.url?.includes('youtube.com')) {
-          console.log('✅ Current tab is YouTube, starting recording on current tab...')
+        if (transcriptionService.forTab(currentTab.id)?.recording) {
+          sendResponse({ success: false, error: 'This tab is already being transcribed' })
+          break
+        }
+
+        if (await hasVideo(currentTab)) {
+          console.log('✅ Current tab has a video, starting recording on current tab...')
           
           // Start recording on the current tab
-          transcriptionService.startRecording(currentTab.id!)
+          transcriptionService.startRecording(currentTab.id!, message.captionTrackId)
           
           chrome.action.setBadgeText({ text: 'REC', tabId: currentTab.id })
           
-          sendResponse({ success: true, isRecording: true, message: 'Recording started on current YouTube tab' })
-          return
+          sendResponse({ success: true, isRecording: true, message: 'Recording started on current tab' })
+          break
         } else {
-          console.log('Current tab is not YouTube:', currentTab.url)
+          console.log('Current tab has no video:', currentTab.url)
         }
       }
       
-      // If current tab is not YouTube, search for any YouTube tab
-      console.log('🔍 Searching for YouTube tabs...')
-      chrome.tabs.query({}, (tabs) => {
-        const youtubeTabs = tabs.filter(tab => tab.url?.includes('youtube.com'))
-        
-        if (youtubeTabs.length > 0) {
-          const youtubeTab = youtubeTabs[0]
-          console.log(`Found ${youtubeTabs.length} YouTube tab(s), using:`, youtubeTab.id, youtubeTab.url)
+      // Otherwise fall back to a tab on a known video site that isn't being recorded yet
+      console.log('🔍 Searching for video tabs...')
+      const tabs = await chrome.tabs.query({})
+      const videoTabs = tabs.filter(tab => isKnownVideoSite(tab.url) && !transcriptionService.forTab(tab.id)?.recording)
+      
+      if (videoTabs.length > 0) {
+        const videoTab = videoTabs[0]
+        console.log(`Found ${videoTabs.length} video tab(s), using:`, videoTab.id, videoTab.url)
         
         // Start the actual recording using tabCapture
-          transcriptionService.startRecording(youtubeTab.id!)
+        transcriptionService.startRecording(videoTab.id!)
         
-        chrome.action.setBadgeText({ text: 'REC', tabId: youtubeTab.id })
+        chrome.action.setBadgeText({ text: 'REC', tabId: videoTab.id })
         
-          sendResponse({ 
-            success: true, 
-            isRecording: true, 
-            message: `Recording started on YouTube tab: ${youtubeTab.title || 'YouTube'}` 
-          })
+        sendResponse({ 
+          success: true, 
+          isRecording: true, 
+          message: `Recording started on tab: ${videoTab.title || videoTab.url}` 
+        })
       } else {
-        const error = 'No YouTube tab found. Please open a YouTube video first.'
+        const error = 'No video tab to record. Please open a video first.'
         console.error(error)
         sendResponse({ success: false, error })
       }
-      })
-    })
-    
-    return true // Keep message channel open for async response
-  } else if (message.type === 'stopRecording') {
-    console.log('Stopping recording from popup request...')
-    
-    // Call the actual stopRecording method to save the file
-    await transcriptionService.stopRecording()
-    
-    chrome.action.setBadgeText({ text: '' })
-    
-    sendResponse({ success: true, isRecording: false })
-  } else if (message.type === 'contentScriptReady') {
-    console.log('Content script is ready on tab:', sender.tab?.id)
-    if (sender.tab?.id) {
-      transcriptionService.currentTab = sender.tab.id
-    }
-  } else if (message.type === 'audioChunk') {
-    console.log('=== AUDIO CHUNK RECEIVED ===')
-    console.log('Received audio chunk from content script:')
-    console.log('- Size:', message.size, 'bytes')
-    console.log('- Encoding:', message.encoding)
-    console.log('- MIME type:', message.mimeType)
-    console.log('- Sample rate:', message.sampleRate)
-    console.log('- Audio data length:', message.audioData ? message.audioData.length : 'undefined')
-    console.log('- Audio data preview:', message.audioData ? message.audioData.substring(0, 100) + '...' : 'undefined')
-    
-    if (message.encoding === 'WEBM_ORIGINAL' && message.audioData && message.size > 0) {
-      // Handle WebM_ORIGINAL format - process with Google API directly
-      console.log(`Processing WEBM_ORIGINAL format directly with Google API`)
+      break
+    }
+
+    case 'stopRecording': {
+      console.log('Stopping recording for tab:', tabId)
+      await sessionRecovery
+
+      if (tabId === undefined) {
+        sendResponse({ success: false, error: 'No tab given to stop recording' })
+        break
+      }
+      
+      // Call the actual stopRecording method to save the file
+      await transcriptionService.stopRecording(tabId)
+      
+      chrome.action.setBadgeText({ text: '', tabId })
+      
+      sendResponse({ success: true, isRecording: false })
+      break
+    }
+
+    case 'contentScriptReady':
+      console.log('Content script is ready on tab:', tabId)
+      await sessionRecovery
+
+      // A fresh content script in a tab we were recording means the page was reloaded or
+      // navigated away, so that recording is over
+      if (transcriptionService.forTab(tabId)?.recording) {
+        console.log('Recorded tab reloaded, finishing its session')
+        await transcriptionService.stopRecording(tabId)
+        chrome.action.setBadgeText({ text: '', tabId: tabId })
+      }
+      break
+
+    case 'exportNow':
+      await sessionRecovery
+      await transcriptionService.exportNow(tabId)
+      sendResponse({ success: true })
+      break
+
+    case 'exportSession':
+      transcriptionService.exportSession(message.sessionId)
+      sendResponse({ success: true })
+      break
+
+    case 'audioChunk': {
+      await sessionRecovery
+      console.log('=== AUDIO CHUNK RECEIVED ===')
+      console.log('Received audio chunk from tab:', tabId)
+      console.log('- Size:', message.size, 'bytes')
+      console.log('- Encoding:', message.encoding)
+      console.log('- MIME type:', message.mimeType)
+      console.log('- Sample rate:', message.sampleRate)
+      console.log('- Audio data length:', message.audioData.length)
+      console.log('- Video time:', message.playback?.videoTime)
+      
+      const transcription = transcriptionService.forTab(tabId)
+      if (!transcription?.recording) {
+        console.warn('Audio chunk from a tab that is not being recorded, skipping')
+        break
+      }
+      
+      // The chunk's end position in the video anchors its timestamps
+      if (message.playback) {
+        transcription.recordPlayback(message.playback)
+      }
+      
+      if (message.size === 0) {
+        console.warn('Received empty audio chunk, skipping')
+        break
+      }
+      
       try {
-        const base64Data = message.audioData.split(',')[1] || message.audioData
-        console.log(`Extracted base64 data length: ${base64Data.length} characters`)
-        
-        const binaryData = atob(base64Data)
-        const bytes = new Uint8Array(binaryData.length)
-        for (let i = 0; i < binaryData.length; i++) {
-          bytes[i] = binaryData.charCodeAt(i)
-        }
-        const audioBlob = new Blob([bytes], { type: message.mimeType || 'audio/webm;codecs=opus' })
-        
+        const audioBlob = base64ToBlob(message.audioData, message.mimeType)
         console.log(`Created audio blob: ${audioBlob.size} bytes, type: ${audioBlob.type}`)
         
-        // Process with WebM handling
-        const timestamp = transcriptionService.getRelativeTimestamp()
-        transcriptionService.processWebMChunk(audioBlob, timestamp)
-        
-      } catch (error) {
-        console.error('Failed to process WebM_ORIGINAL audio data:', error)
-      }
-    } else if ((message.encoding === 'WEBM_OPUS' || message.encoding === 'ORIGINAL') && message.audioData && message.size > 0) {
-      // Handle legacy WebM/Opus or original format - try to process with Google API directly
-      console.log(`Processing ${message.encoding} format directly with Google API`)
-      try {
-        const base64Data = message.audioData.split(',')[1] || message.audioData
-        const binaryData = atob(base64Data)
-        const bytes = new Uint8Array(binaryData.length)
-        for (let i = 0; i < binaryData.length; i++) {
-          bytes[i] = binaryData.charCodeAt(i)
+        const bounds = transcription.chunkBounds(message.playback?.wallTime, message.startedAt)
+        if (message.encoding === 'WEBM_ORIGINAL') {
+          // WebM segments straight from MediaRecorder carry their own rate in the container
+          transcription.processAudioChunk(audioBlob, bounds)
+        } else {
+          // 16 kHz mono PCM from the AudioWorklet recorder - one known format, no codec guessing
+          console.log(`Processing ${message.encoding} audio at ${message.sampleRate} Hz`)
+          transcription.processAudioChunk(audioBlob, bounds, message.sampleRate)
         }
-        const audioBlob = new Blob([bytes], { type: message.mimeType || 'audio/webm;codecs=opus' })
-        
-        // Process with original WebM handling
-        const timestamp = transcriptionService.getRelativeTimestamp()
-        transcriptionService.processWebMChunk(audioBlob, timestamp)
-        
       } catch (error) {
-        console.error('Failed to process WebM audio data:', error)
+        console.error(`Failed to process ${message.encoding} audio data:`, error)
       }
-    } else {
-      console.warn('Received unknown or invalid audio chunk format:', {
-        encoding: message.encoding,
-        hasAudioData: !!message.audioData,
-        size: message.size,
-        mimeType: message.mimeType
-      })
+      console.log('=== END AUDIO CHUNK ===')
+      break
     }
-    console.log('=== END AUDIO CHUNK ===')
-  } else if (message.type === 'recordingStarted') {
-    console.log('Content script confirmed recording started')
-    // Update recording state
-    transcriptionService.setRecordingState(true)
-    chrome.runtime.sendMessage({ type: 'recordingState', isRecording: true })
-  } else if (message.type === 'recordingStopped') {
-    console.log('Content script confirmed recording stopped')
-    chrome.runtime.sendMessage({ type: 'recordingState', isRecording: false })
-  } else if (message.type === 'recordingError') {
-    console.error('Content script recording error:', message.error)
-    transcriptionService.setRecordingState(false)
-    chrome.runtime.sendMessage({ type: 'recordingError', error: message.error })
+
+    case 'recordingStarted': {
+      await sessionRecovery
+      console.log('Content script confirmed recording started on tab:', tabId)
+      const transcription = transcriptionService.forTab(tabId)
+      if (!transcription) break
+
+      if (message.playback) {
+        transcription.recordPlayback(message.playback)
+        transcription.markCaptureStarted(message.playback.wallTime)
+      }
+      // Update recording state
+      transcription.setRecordingState(true)
+      sendMessage({ type: 'recordingState', isRecording: true, tabId: tabId })
+      break
+    }
+
+    case 'playbackEvent':
+      await sessionRecovery
+      console.log(`Tab ${tabId}: playback ${message.event} at video time ${message.playback.videoTime}s (rate ${message.playback.playbackRate})`)
+      transcriptionService.forTab(tabId)?.recordPlayback(message.playback)
+      break
+
+    case 'recordingStopped':
+      console.log('Content script confirmed recording stopped on tab:', tabId)
+      sendMessage({ type: 'recordingState', isRecording: false, tabId: tabId })
+      break
+
+    case 'recordingError':
+      console.error(`Content script recording error on tab ${tabId}:`, message.error)
+      await sessionRecovery
+      if (tabId !== undefined) {
+        transcriptionService.handleRecordingError(tabId, new Error(message.error))
+        chrome.action.setBadgeText({ text: '', tabId: tabId })
+      }
+      break
   }
-  
-  return true
 })
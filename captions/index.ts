@@ -0,0 +1,35 @@
+import type { TranscriptionEntry } from "~speech"
+import { formatTimestamp } from "~speech/utils"
+
+import type { CaptionCue, CaptionTrack, TranscriptSource } from "./types"
+
+export type { CaptionCue, CaptionTrack, TranscriptSource } from "./types"
+
+export const DEFAULT_TRANSCRIPT_SOURCE: TranscriptSource = 'speech'
+
+export const TRANSCRIPT_SOURCE_OPTIONS: { id: TranscriptSource; label: string }[] = [
+  { id: 'speech', label: 'Speech recognition' },
+  { id: 'hybrid', label: 'Video captions, speech recognition when there are none' }
+]
+
+// The track hybrid mode uses: written captions beat auto-generated ones, and the primary
+// language beats any other
+export function pickCaptionTrack(tracks: CaptionTrack[], primaryLanguage: string): CaptionTrack | null {
+  const language = primaryLanguage.split('-')[0]
+  const score = (track: CaptionTrack) =>
+    (track.languageCode.split('-')[0] === language ? 2 : 0) + (track.autoGenerated ? 0 : 1)
+
+  return [...tracks].sort((a, b) => score(b) - score(a))[0] || null
+}
+
+// Each cue becomes an entry, so the track's own timing carries through to the exports
+export function cuesToEntries(cues: CaptionCue[], language: string): TranscriptionEntry[] {
+  return cues.map((cue, index) => ({
+    timestamp: formatTimestamp(cue.startTime),
+    startTime: cue.startTime,
+    endTime: cue.endTime,
+    text: cue.text,
+    language,
+    chunkNumber: index + 1
+  }))
+}
@@ -0,0 +1,19 @@
+// Where transcripts come from: always speech recognition, or the video's own captions
+// when it has them and speech recognition only otherwise
+export type TranscriptSource = 'speech' | 'hybrid'
+
+// A caption track the site offers for the current video
+export interface CaptionTrack {
+  id: string
+  languageCode: string
+  label: string
+  // Generated by the site's own speech recognition rather than written by a person
+  autoGenerated: boolean
+}
+
+// One timed line of a caption track, in seconds of video time
+export interface CaptionCue {
+  startTime: number
+  endTime: number
+  text: string
+}
@@ -0,0 +1,93 @@
+import type { CaptionCue, CaptionTrack } from "./types"
+
+// Shape of the caption tracks in ytInitialPlayerResponse
+interface YouTubeCaptionTrack {
+  baseUrl: string
+  vssId: string
+  languageCode: string
+  kind?: string
+  name?: { simpleText?: string; runs?: { text: string }[] }
+}
+
+// Shape of a timedtext response with fmt=json3
+interface TimedTextEvent {
+  tStartMs: number
+  dDurationMs?: number
+  segs?: { utf8: string }[]
+}
+
+// The content script can't see the page's own variables, but the watch page embeds the same
+// player response, so fetch it fresh - that also stays correct after in-page navigation
+async function fetchCaptionTracks(): Promise<YouTubeCaptionTrack[]> {
+  const response = await fetch(location.href, { credentials: 'include' })
+  const html = await response.text()
+
+  const start = html.indexOf('"captionTracks":')
+  if (start === -1) return []
+
+  const arrayStart = html.indexOf('[', start)
+  const arrayEnd = findArrayEnd(html, arrayStart)
+  if (arrayEnd === -1) return []
+
+  try {
+    return JSON.parse(html.slice(arrayStart, arrayEnd + 1))
+  } catch (error) {
+    console.warn('Could not parse the caption tracks:', error)
+    return []
+  }
+}
+
+// Index of the "]" closing the JSON array that opens at `start`, skipping brackets inside
+// strings (track names, URLs); -1 if it never closes
+function findArrayEnd(json: string, start: number): number {
+  let depth = 0
+  let inString = false
+  for (let i = start; i >= 0 && i < json.length; i++) {
+    const char = json[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '[') {
+      depth++
+    } else if (char === ']' && --depth === 0) {
+      return i
+    }
+  }
+  return -1
+}
+
+function trackLabel(track: YouTubeCaptionTrack): string {
+  return track.name?.simpleText || track.name?.runs?.map(run => run.text).join('') || track.languageCode
+}
+
+export async function getYouTubeCaptionTracks(): Promise<CaptionTrack[]> {
+  const tracks = await fetchCaptionTracks()
+  return tracks.map(track => ({
+    id: track.vssId,
+    languageCode: track.languageCode,
+    label: trackLabel(track),
+    autoGenerated: track.kind === 'asr'
+  }))
+}
+
+export async function loadYouTubeCaptionTrack(trackId: string): Promise<CaptionCue[]> {
+  const track = (await fetchCaptionTracks()).find(candidate => candidate.vssId === trackId)
+  if (!track) throw new Error(`Caption track ${trackId} is not available for this video`)
+
+  const url = new URL(track.baseUrl, location.origin)
+  url.searchParams.set('fmt', 'json3')
+  const response = await fetch(url.toString(), { credentials: 'include' })
+  if (!response.ok) throw new Error(`Caption request failed: ${response.status}`)
+
+  const { events = [] } = await response.json() as { events?: TimedTextEvent[] }
+  return events
+    .map(event => ({
+      startTime: event.tStartMs / 1000,
+      endTime: (event.tStartMs + (event.dDurationMs || 0)) / 1000,
+      // Auto-generated tracks split lines into word segments and mark line breaks with '\n'
+      text: (event.segs || []).map(seg => seg.utf8).join('').replace(/\s+/g, ' ').trim()
+    }))
+    .filter(cue => cue.text)
+}
@@ -0,0 +1,213 @@
+import type { AudioChunkMessage, ChunkEncoding } from "~messaging"
+
+import type { AudioEncoding } from "./encodings"
+import { PCM_SAMPLE_RATE, PcmSegmentRecorder } from "./pcm-recorder"
+import { SegmentScheduler } from "./segment-scheduler"
+import {
+  MIN_SEGMENT_MS,
+  SEGMENT_LENGTH_MS,
+  SegmentingRecorder
+} from "./segmenting-recorder"
+import type { RecordedSegment } from "./segmenting-recorder"
+import { VoiceActivityDetector } from "./vad"
+
+// Segments with less detected speech than this are silence/music and aren't worth sending
+const MIN_SPEECH_MS = 300
+
+export interface AudioCaptureOptions {
+  vadEnabled: boolean
+  audioEncoding: AudioEncoding
+  // Route the audio to the speakers too - tabCapture mutes the tab it captures otherwise
+  playThrough?: boolean
+  // Longest segment before a forced cut
+  segmentLengthMs?: number
+  // WebM recording bitrate in bits per second
+  audioBitrate?: number
+}
+
+// Turns an audio stream into speech segments: voice activity detection, the segmenting recorder
+// and the scheduler that cuts it. Shared by the content script (screen-share capture) and the
+// offscreen document (tabCapture).
+export class AudioCapture {
+  onsegment: ((segment: RecordedSegment) => void) | null = null
+  onstart: (() => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+
+  private audioContext: AudioContext | null = null
+  private audioSource: MediaStreamAudioSourceNode | null = null
+  private voiceActivity: VoiceActivityDetector | null = null
+  private recorder: SegmentingRecorder | PcmSegmentRecorder | null = null
+  private scheduler: SegmentScheduler | null = null
+
+  constructor(
+    private stream: MediaStream,
+    private options: AudioCaptureOptions
+  ) {}
+
+  get isRecording(): boolean {
+    return this.recorder?.state === 'recording'
+  }
+
+  // Rate of the audio in WebM segments; PCM segments are always PCM_SAMPLE_RATE
+  get sampleRate(): number {
+    return this.audioContext?.sampleRate || 44100
+  }
+
+  async start() {
+    // Set up audio analysis
+    try {
+      console.log('Setting up audio context...')
+      this.audioContext = new AudioContext({ sampleRate: 44100 })
+      this.audioSource = this.audioContext.createMediaStreamSource(this.stream)
+      const analyser = this.audioContext.createAnalyser()
+      analyser.fftSize = 2048
+      this.audioSource.connect(analyser)
+
+      if (this.options.playThrough) {
+        this.audioSource.connect(this.audioContext.destination)
+      }
+
+      // Voice activity drives where segments are cut and which ones are skipped as silence
+      if (this.options.vadEnabled) {
+        this.voiceActivity = new VoiceActivityDetector(analyser)
+        this.voiceActivity.start()
+        console.log('✅ Voice activity detection started')
+      }
+
+      console.log('✅ Audio context created successfully, sample rate:', this.audioContext.sampleRate)
+    } catch (error) {
+      console.error('❌ Failed to create audio context:', error)
+    }
+
+    const { audioEncoding } = this.options
+    if (audioEncoding !== 'WEBM' && this.audioSource && PcmSegmentRecorder.isSupported(this.audioContext)) {
+      // Known-good format: 16 kHz mono PCM straight from an AudioWorklet
+      console.log(`Creating AudioWorklet recorder: ${audioEncoding} @ ${PCM_SAMPLE_RATE} Hz mono`)
+      this.recorder = new PcmSegmentRecorder(this.audioContext, this.audioSource, audioEncoding)
+    } else {
+      this.recorder = createWebMRecorder(this.stream, this.options.audioBitrate)
+    }
+    console.log('✅ Segmenting recorder created successfully')
+
+    this.recorder.onsegment = (segment) => {
+      const speechMs = this.voiceActivity?.speechDurationBetween(segment.startedAt, segment.endedAt)
+      if (speechMs !== undefined && speechMs < MIN_SPEECH_MS) {
+        console.log(`🔇 Skipping segment ${segment.sequence}: only ${speechMs}ms of speech detected`)
+        return
+      }
+      this.onsegment?.(segment)
+    }
+    this.recorder.onerror = (event) => this.onerror?.(event)
+    this.recorder.onstart = () => this.onstart?.()
+
+    // Every segment is independently decodable. The scheduler cuts them at pauses in speech,
+    // or with an overlap when nobody pauses, so words at the edges aren't cut in half
+    const segmentLengthMs = this.options.segmentLengthMs || SEGMENT_LENGTH_MS
+    console.log(`🎬 Starting segments of ${MIN_SEGMENT_MS / 1000}-${segmentLengthMs / 1000} seconds...`)
+    await this.recorder.start()
+    this.scheduler = new SegmentScheduler(this.recorder, this.voiceActivity, segmentLengthMs)
+    this.scheduler.start()
+    console.log('✅ Segmenting recorder started')
+  }
+
+  setSegmentLength(segmentLengthMs: number) {
+    this.options.segmentLengthMs = segmentLengthMs
+    if (this.scheduler) this.scheduler.segmentLengthMs = segmentLengthMs
+  }
+
+  // Stops recording and releases the audio graph; the stream's tracks belong to the caller
+  stop() {
+    if (this.scheduler) {
+      this.scheduler.stop()
+      this.scheduler = null
+    }
+
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop()
+    }
+    this.recorder = null
+
+    if (this.voiceActivity) {
+      this.voiceActivity.stop()
+      this.voiceActivity = null
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = null
+      this.audioSource = null
+    }
+  }
+}
+
+// Fallback when AudioWorklet capture is disabled or unavailable: let MediaRecorder pick a WebM codec
+function createWebMRecorder(stream: MediaStream, audioBitsPerSecond: number = 128000): SegmentingRecorder {
+  // Use a more explicit WebM configuration that's compatible with Google Speech API
+  console.log('Configuring MediaRecorder for WebM audio...')
+
+  // Check what formats are supported
+  const supportedTypes = [
+    'audio/webm;codecs=vorbis',  // Try Vorbis first - often more compatible
+    'audio/webm;codecs=opus',    // Opus as fallback
+    'audio/webm'                  // Generic WebM as last resort
+  ]
+
+  let selectedType = supportedTypes.find(type => MediaRecorder.isTypeSupported(type))
+  console.log('Supported audio types:', supportedTypes.map(type => `${type}: ${MediaRecorder.isTypeSupported(type) ? 'YES' : 'NO'}`))
+  console.log('Selected audio type:', selectedType)
+
+  // Force Vorbis if available for better Google Speech API compatibility
+  if (MediaRecorder.isTypeSupported('audio/webm;codecs=vorbis')) {
+    selectedType = 'audio/webm;codecs=vorbis'
+    console.log('✅ Forcing Vorbis codec for better Google Speech API compatibility')
+  } else if (MediaRecorder.isTypeSupported('audio/webm;codecs=opus')) {
+    selectedType = 'audio/webm;codecs=opus'
+    console.log('⚠️ Using Opus codec (may have compatibility issues)')
+  } else {
+    console.log('⚠️ Using generic WebM format (compatibility unknown)')
+  }
+
+  const options: MediaRecorderOptions = {
+    audioBitsPerSecond
+  }
+
+  if (selectedType) {
+    options.mimeType = selectedType
+  }
+
+  console.log('MediaRecorder options:', options)
+
+
+  console.log('Creating segmenting recorder with audio stream...')
+  return new SegmentingRecorder(stream, options)
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Package a segment for the background; the sender adds its tab or playback position
+export async function toAudioChunkMessage(segment: RecordedSegment, sampleRate: number): Promise<AudioChunkMessage> {
+  const { blob } = segment
+  const encoding: ChunkEncoding = blob.type === 'audio/flac' ? 'FLAC'
+    : blob.type === 'audio/wav' ? 'LINEAR16'
+    : 'WEBM_ORIGINAL'
+
+  console.log('Converting blob to base64...')
+  const audioData = await blobToBase64(blob)
+  console.log(`Converted to base64: ${audioData.length} characters`)
+
+  return {
+    type: 'audioChunk',
+    audioData,
+    size: blob.size,
+    mimeType: blob.type,
+    encoding,
+    sampleRate: encoding === 'WEBM_ORIGINAL' ? sampleRate : PCM_SAMPLE_RATE,
+    startedAt: segment.startedAt
+  }
+}
@@ -0,0 +1,10 @@
+// How captured audio is packaged before it is sent to the recognizer
+export type AudioEncoding = 'FLAC' | 'LINEAR16' | 'WEBM'
+
+export const DEFAULT_AUDIO_ENCODING: AudioEncoding = 'FLAC'
+
+export const AUDIO_ENCODING_OPTIONS: { id: AudioEncoding; label: string }[] = [
+  { id: 'FLAC', label: 'FLAC, 16 kHz mono (smallest)' },
+  { id: 'LINEAR16', label: 'LINEAR16 WAV, 16 kHz mono' },
+  { id: 'WEBM', label: 'WebM (browser codec)' }
+]
@@ -0,0 +1,218 @@
+// Minimal mono 16-bit FLAC encoder: fixed linear predictors (orders 0-4) with Rice-coded residuals.
+// Not as tight as libFLAC's LPC search, but speech typically compresses to around half of LINEAR16.
+
+const BLOCK_SIZE = 4096
+const MAX_FIXED_ORDER = 4
+// 4-bit Rice parameters top out at 14; 15 is the escape code
+const MAX_RICE_PARAMETER = 14
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010
+}
+
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16)
+  private byteLength = 0
+  private bitBuffer = 0
+  private bitCount = 0
+
+  get length(): number {
+    return this.byteLength
+  }
+
+  writeBits(value: number, bits: number) {
+    // Split wide values so the 32-bit bitwise operators below stay in range
+    while (bits > 24) {
+      bits -= 24
+      this.writeBits(Math.floor(value / 2 ** bits) & 0xffffff, 24)
+      value = value % 2 ** bits
+    }
+
+    for (let i = bits - 1; i >= 0; i--) {
+      this.bitBuffer = (this.bitBuffer << 1) | ((value >>> i) & 1)
+      if (++this.bitCount === 8) {
+        this.pushByte(this.bitBuffer)
+        this.bitBuffer = 0
+        this.bitCount = 0
+      }
+    }
+  }
+
+  writeUnary(zeros: number) {
+    for (let i = 0; i < zeros; i++) this.writeBits(0, 1)
+    this.writeBits(1, 1)
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount)
+  }
+
+  bytes(start = 0, end = this.byteLength): Uint8Array {
+    return this.buffer.subarray(start, end)
+  }
+
+  private pushByte(byte: number) {
+    if (this.byteLength === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.byteLength++] = byte
+  }
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0
+  for (const byte of data) {
+    crc ^= byte
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff
+    }
+  }
+  return crc
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0
+  for (const byte of data) {
+    crc ^= byte << 8
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+  return crc
+}
+
+// Frame numbers are stored with the same variable-length scheme as UTF-8
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8)
+    return
+  }
+
+  let continuationBytes = 1
+  while (value >= 2 ** (6 * continuationBytes + 6 - continuationBytes)) continuationBytes++
+
+  const leadingBits = 6 - continuationBytes
+  const prefix = (0xff << (7 - continuationBytes)) & 0xff
+  writer.writeBits(prefix | Math.floor(value / 2 ** (6 * continuationBytes)) & ((1 << leadingBits) - 1), 8)
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8)
+  }
+}
+
+function fixedResiduals(samples: Int16Array, order: number): Int32Array {
+  const residuals = new Int32Array(samples.length - order)
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0
+    switch (order) {
+      case 1: prediction = samples[i - 1]; break
+      case 2: prediction = 2 * samples[i - 1] - samples[i - 2]; break
+      case 3: prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break
+      case 4: prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break
+    }
+    residuals[i - order] = samples[i] - prediction
+  }
+  return residuals
+}
+
+function riceParameter(residuals: Int32Array): number {
+  if (residuals.length === 0) return 0
+
+  let sum = 0
+  for (const residual of residuals) sum += residual >= 0 ? residual * 2 : -residual * 2 - 1
+  const mean = sum / residuals.length
+
+  return mean < 1 ? 0 : Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean)))
+}
+
+function writeSubframe(writer: BitWriter, samples: Int16Array) {
+  // Pick the predictor order that leaves the smallest residuals
+  let bestOrder = 0
+  let bestResiduals = fixedResiduals(samples, 0)
+  let bestCost = Infinity
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residuals = order === 0 ? bestResiduals : fixedResiduals(samples, order)
+    let cost = 0
+    for (const residual of residuals) cost += Math.abs(residual)
+    if (cost < bestCost) {
+      bestCost = cost
+      bestOrder = order
+      bestResiduals = residuals
+    }
+  }
+
+  // Subframe header: zero pad bit, FIXED type (001xxx), no wasted bits
+  writer.writeBits(0, 1)
+  writer.writeBits(0b001000 | bestOrder, 6)
+  writer.writeBits(0, 1)
+
+  // Warm-up samples
+  for (let i = 0; i < bestOrder; i++) writer.writeBits(samples[i] & 0xffff, 16)
+
+  // Residual: Rice coding with 4-bit parameters, a single partition
+  const parameter = riceParameter(bestResiduals)
+  writer.writeBits(0, 2)
+  writer.writeBits(0, 4)
+  writer.writeBits(parameter, 4)
+  for (const residual of bestResiduals) {
+    const folded = residual >= 0 ? residual * 2 : -residual * 2 - 1
+    writer.writeUnary(folded >>> parameter)
+    if (parameter > 0) writer.writeBits(folded & ((1 << parameter) - 1), parameter)
+  }
+}
+
+export function encodeFlac(samples: Int16Array, sampleRate: number): Blob {
+  const writer = new BitWriter()
+
+  // Stream marker + STREAMINFO (the only, and therefore last, metadata block)
+  writer.writeBits(0x664c6143, 32)
+  writer.writeBits(1, 1)
+  writer.writeBits(0, 7)
+  writer.writeBits(34, 24)
+  const streamBlockSize = Math.min(BLOCK_SIZE, samples.length)
+  writer.writeBits(streamBlockSize, 16) // min block size (the last block may be shorter)
+  writer.writeBits(streamBlockSize, 16) // max block size
+  writer.writeBits(0, 24) // min frame size unknown
+  writer.writeBits(0, 24) // max frame size unknown
+  writer.writeBits(sampleRate, 20)
+  writer.writeBits(0, 3) // 1 channel
+  writer.writeBits(15, 5) // 16 bits per sample
+  writer.writeBits(samples.length, 36)
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32) // MD5 not computed
+
+  // Spell the sample rate out in every frame header rather than deferring to STREAMINFO -
+  // some stream parsers treat the "see STREAMINFO" code as invalid
+  const sampleRateCode = SAMPLE_RATE_CODES[sampleRate] ?? 0b1101
+
+  for (let offset = 0, frame = 0; offset < samples.length; offset += BLOCK_SIZE, frame++) {
+    const block = samples.subarray(offset, Math.min(offset + BLOCK_SIZE, samples.length))
+    const frameStart = writer.length
+
+    writer.writeBits(0b11111111111110, 14) // sync code
+    writer.writeBits(0, 1) // reserved
+    writer.writeBits(0, 1) // fixed block size stream
+    writer.writeBits(0b0111, 4) // block size stored as 16-bit value after the frame number
+    writer.writeBits(sampleRateCode, 4)
+    writer.writeBits(0b0000, 4) // mono
+    writer.writeBits(0b100, 3) // 16 bits per sample
+    writer.writeBits(0, 1) // reserved
+    writeUtf8Number(writer, frame)
+    writer.writeBits(block.length - 1, 16)
+    if (sampleRateCode === 0b1101) writer.writeBits(sampleRate, 16)
+    writer.writeBits(crc8(writer.bytes(frameStart)), 8)
+
+    writeSubframe(writer, block)
+
+    writer.alignToByte()
+    writer.writeBits(crc16(writer.bytes(frameStart)), 16)
+  }
+
+  return new Blob([writer.bytes().slice()], { type: 'audio/flac' })
+}
@@ -0,0 +1,47 @@
+// Background helpers for the offscreen document that records tabs through chrome.tabCapture.
+// MV3 service workers can't hold a MediaStream, so recording happens in this hidden page instead.
+const OFFSCREEN_DOCUMENT_PATH = 'tabs/offscreen.html'
+
+let creating: Promise<void> | null = null
+
+// Whether this browser can record a tab without the screen-share picker
+export function isTabCaptureSupported(): boolean {
+  return !!chrome.offscreen?.createDocument && !!chrome.tabCapture?.getMediaStreamId
+}
+
+export function hasOffscreenDocument(): Promise<boolean> {
+  return chrome.offscreen?.hasDocument ? chrome.offscreen.hasDocument() : Promise.resolve(false)
+}
+
+// Only one offscreen document can exist per extension; it records every captured tab
+export async function ensureOffscreenDocument() {
+  if (await hasOffscreenDocument()) return
+
+  creating = creating || chrome.offscreen.createDocument({
+    url: OFFSCREEN_DOCUMENT_PATH,
+    reasons: [chrome.offscreen.Reason.USER_MEDIA],
+    justification: 'Record tab audio for transcription'
+  }).finally(() => {
+    creating = null
+  })
+  await creating
+}
+
+export async function closeOffscreenDocument() {
+  if (await hasOffscreenDocument()) {
+    await chrome.offscreen.closeDocument()
+  }
+}
+
+// A stream id the offscreen document can pass to getUserMedia to record the tab
+export function getTabStreamId(tabId: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    chrome.tabCapture.getMediaStreamId({ targetTabId: tabId }, (streamId) => {
+      if (chrome.runtime.lastError || !streamId) {
+        reject(new Error(chrome.runtime.lastError?.message || 'No stream id for tab'))
+      } else {
+        resolve(streamId)
+      }
+    })
+  })
+}
@@ -0,0 +1,66 @@
+// AudioWorklet processor: mixes the captured stream down to mono, downsamples it to 16 kHz
+// and posts Int16 sample batches back to the content script.
+// Loaded through audioWorklet.addModule, so it runs in AudioWorkletGlobalScope, not the page.
+
+declare const sampleRate: number
+declare function registerProcessor(name: string, processorCtor: unknown): void
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+}
+
+const TARGET_SAMPLE_RATE = 16000
+// ~100ms of output per message keeps postMessage overhead low
+const BATCH_SIZE = TARGET_SAMPLE_RATE / 10
+
+class PcmProcessor extends AudioWorkletProcessor {
+  private ratio = sampleRate / TARGET_SAMPLE_RATE
+  // Input index (relative to the current render quantum) where the current output sample ends
+  private nextBoundary = sampleRate / TARGET_SAMPLE_RATE
+  private accumulator = 0
+  private accumulated = 0
+  private batch = new Int16Array(BATCH_SIZE)
+  private batchLength = 0
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0]
+    if (!channels || channels.length === 0) return true
+
+    const frameCount = channels[0].length
+    for (let i = 0; i < frameCount; i++) {
+      let mixed = 0
+      for (const channel of channels) mixed += channel[i]
+      mixed /= channels.length
+
+      // Box-filter decimation: average every input sample that falls inside one output period
+      this.accumulator += mixed
+      this.accumulated++
+
+      if (i + 1 >= this.nextBoundary) {
+        this.pushSample(this.accumulator / this.accumulated)
+        this.nextBoundary += this.ratio
+        this.accumulator = 0
+        this.accumulated = 0
+      }
+    }
+    this.nextBoundary -= frameCount
+
+    return true
+  }
+
+  private pushSample(value: number) {
+    const clamped = Math.max(-1, Math.min(1, value))
+    this.batch[this.batchLength++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff
+
+    if (this.batchLength === BATCH_SIZE) this.flush()
+  }
+
+  private flush() {
+    const samples = this.batch.slice(0, this.batchLength)
+    this.port.postMessage(samples, [samples.buffer])
+    this.batchLength = 0
+  }
+}
+
+registerProcessor('pcm-processor', PcmProcessor)
+
+export {}
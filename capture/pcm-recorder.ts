@@ -0,0 +1,135 @@
+import pcmProcessorUrl from "url:./pcm-processor.ts"
+
+import type { AudioEncoding } from "./encodings"
+import { encodeFlac } from "./flac"
+import type { CuttableRecorder, RecordedSegment } from "./segmenting-recorder"
+import { encodeWav } from "./wav"
+
+// Must match TARGET_SAMPLE_RATE in pcm-processor.ts
+export const PCM_SAMPLE_RATE = 16000
+
+export type PcmEncoding = Exclude<AudioEncoding, 'WEBM'>
+
+// Records a stream through an AudioWorklet as 16 kHz mono PCM and emits FLAC or WAV
+// segments, so the recognizer always gets one known-good format.
+// Same event surface as SegmentingRecorder so content.ts can use either.
+export class PcmSegmentRecorder implements CuttableRecorder {
+  onsegment: ((segment: RecordedSegment) => void) | null = null
+  onstart: (() => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+
+  private workletNode: AudioWorkletNode | null = null
+  private batches: Int16Array[] = []
+  private bufferedSamples = 0
+  private bufferStartedAt = 0
+  private sequence = 0
+  private active = false
+
+  constructor(
+    private audioContext: AudioContext,
+    private source: AudioNode,
+    private encoding: PcmEncoding = 'FLAC'
+  ) {}
+
+  get state(): 'recording' | 'inactive' {
+    return this.active ? 'recording' : 'inactive'
+  }
+
+  get mimeType(): string {
+    return this.encoding === 'FLAC' ? 'audio/flac' : 'audio/wav'
+  }
+
+  // AudioWorklet is only available in secure contexts on recent browsers
+  static isSupported(audioContext: AudioContext | null): boolean {
+    return !!audioContext?.audioWorklet && typeof AudioWorkletNode !== 'undefined'
+  }
+
+  async start() {
+    if (this.active) return
+
+    try {
+      await this.audioContext.audioWorklet.addModule(pcmProcessorUrl)
+      // No outputs: the node only taps the stream, nothing is played back
+      this.workletNode = new AudioWorkletNode(this.audioContext, 'pcm-processor', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0
+      })
+    } catch (error) {
+      console.error('❌ Failed to load PCM AudioWorklet:', error)
+      this.onerror?.(new ErrorEvent('error', { error }))
+      return
+    }
+
+    this.workletNode.port.onmessage = (event: MessageEvent<Int16Array>) => {
+      this.pushBatch(event.data)
+    }
+    this.source.connect(this.workletNode)
+
+    this.active = true
+    this.bufferStartedAt = Date.now()
+    this.onstart?.()
+  }
+
+  // Emits whatever has been captured since the last segment as a final, shorter segment.
+  // Anything still inside the worklet's current batch (<100ms) is dropped, since the
+  // audio context is usually closed straight after this.
+  stop() {
+    if (!this.active) return
+    this.active = false
+
+    if (this.workletNode) {
+      this.source.disconnect(this.workletNode)
+      this.workletNode.port.close()
+      this.workletNode = null
+    }
+
+    this.emitSegment(Date.now(), 0)
+    this.batches = []
+    this.bufferedSamples = 0
+  }
+
+  // Emit the buffered samples as a segment. With an overlap, the last overlapMs of audio
+  // is carried over to open the next segment, so both contain the audio around the cut.
+  cut(overlapMs: number) {
+    if (!this.active) return
+
+    const endedAt = Date.now()
+    const overlapSamples = Math.round(PCM_SAMPLE_RATE * overlapMs / 1000)
+    const carried = this.emitSegment(endedAt, overlapSamples)
+
+    this.batches = carried.length > 0 ? [carried] : []
+    this.bufferedSamples = carried.length
+    this.bufferStartedAt = endedAt - carried.length / PCM_SAMPLE_RATE * 1000
+  }
+
+  private pushBatch(samples: Int16Array) {
+    if (samples.length === 0) return
+    this.batches.push(samples)
+    this.bufferedSamples += samples.length
+  }
+
+  // Encode the buffered samples and hand them out; returns the tail to carry forward
+  private emitSegment(endedAt: number, carrySamples: number): Int16Array {
+    const samples = new Int16Array(this.bufferedSamples)
+    let offset = 0
+    for (const batch of this.batches) {
+      samples.set(batch, offset)
+      offset += batch.length
+    }
+
+    if (samples.length > 0) {
+      const blob = this.encoding === 'FLAC'
+        ? encodeFlac(samples, PCM_SAMPLE_RATE)
+        : encodeWav(samples, PCM_SAMPLE_RATE)
+
+      this.onsegment?.({
+        blob,
+        sequence: ++this.sequence,
+        startedAt: this.bufferStartedAt,
+        endedAt
+      })
+    }
+
+    return carrySamples > 0 ? samples.slice(Math.max(0, samples.length - carrySamples)) : new Int16Array(0)
+  }
+}
@@ -0,0 +1,55 @@
+import type { CuttableRecorder } from "./segmenting-recorder"
+import {
+  MIN_SEGMENT_MS,
+  SEGMENT_LENGTH_MS,
+  SEGMENT_OVERLAP_MS
+} from "./segmenting-recorder"
+import type { VoiceActivityDetector } from "./vad"
+
+const CHECK_INTERVAL_MS = 100
+// Silence this long after speech is treated as a sentence break worth cutting at
+const PAUSE_CUT_MS = 500
+
+// Decides where segments end: at the first pause once a segment is long enough, or with an
+// overlapping forced cut when nobody pauses. Without a VAD it falls back to fixed-length cuts.
+export class SegmentScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private segmentStartedAt = 0
+
+  constructor(
+    private recorder: CuttableRecorder,
+    private vad: VoiceActivityDetector | null,
+    // Changeable while running; takes effect from the current segment
+    public segmentLengthMs: number = SEGMENT_LENGTH_MS
+  ) {}
+
+  start() {
+    if (this.timer) return
+    this.segmentStartedAt = Date.now()
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private check() {
+    const elapsed = Date.now() - this.segmentStartedAt
+
+    if (this.vad && elapsed >= MIN_SEGMENT_MS && this.vad.silenceDuration >= PAUSE_CUT_MS) {
+      console.log(`✂️ Cutting segment at pause after ${(elapsed / 1000).toFixed(1)}s`)
+      this.cut(0)
+    } else if (elapsed >= this.segmentLengthMs) {
+      console.log(`✂️ No pause within ${this.segmentLengthMs / 1000}s, cutting with ${SEGMENT_OVERLAP_MS / 1000}s overlap`)
+      this.cut(SEGMENT_OVERLAP_MS)
+    }
+  }
+
+  private cut(overlapMs: number) {
+    this.recorder.cut(overlapMs)
+    this.segmentStartedAt = Date.now()
+  }
+}
@@ -0,0 +1,115 @@
+// Segments are cut at the first pause after MIN_SEGMENT_MS. With no pause by SEGMENT_LENGTH_MS
+// they are force-cut, and a forced cut overlaps the next segment by SEGMENT_OVERLAP_MS so
+// words at the edge aren't lost
+export const MIN_SEGMENT_MS = 8000
+export const SEGMENT_LENGTH_MS = 25000
+export const SEGMENT_OVERLAP_MS = 5000
+
+export interface RecordedSegment {
+  blob: Blob
+  sequence: number
+  // Wall-clock (Date.now()) times the segment's recorder started and stopped
+  startedAt: number
+  endedAt: number
+}
+
+// Anything SegmentScheduler can split into segments
+export interface CuttableRecorder {
+  cut(overlapMs: number): void
+}
+
+// Records a stream as a series of independently decodable segments.
+// A MediaRecorder started with a timeslice only writes the WebM header into its first blob,
+// so instead every segment gets its own recorder, started whenever the segment is cut.
+export class SegmentingRecorder implements CuttableRecorder {
+  onsegment: ((segment: RecordedSegment) => void) | null = null
+  onstart: (() => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+
+  private recorders = new Set<MediaRecorder>()
+  private current: MediaRecorder | null = null
+  private sequence = 0
+  private active = false
+
+  constructor(
+    private stream: MediaStream,
+    private options: MediaRecorderOptions
+  ) {}
+
+  get state(): 'recording' | 'inactive' {
+    return this.active ? 'recording' : 'inactive'
+  }
+
+  start() {
+    if (this.active) return
+    this.active = true
+
+    this.startSegment()
+  }
+
+  // End the current segment and begin the next one. With an overlap, the old recorder keeps
+  // running that much longer so both segments contain the audio around the cut.
+  cut(overlapMs: number) {
+    if (!this.active) return
+
+    const previous = this.current
+    this.startSegment()
+
+    if (!previous) return
+    if (overlapMs > 0) {
+      setTimeout(() => this.stopRecorder(previous), overlapMs)
+    } else {
+      this.stopRecorder(previous)
+    }
+  }
+
+  // Stops all in-flight recorders; each still emits its (shorter) final segment
+  stop() {
+    if (!this.active) return
+    this.active = false
+
+    this.current = null
+    this.recorders.forEach(recorder => this.stopRecorder(recorder))
+  }
+
+  private stopRecorder(recorder: MediaRecorder) {
+    if (recorder.state !== 'inactive') recorder.stop()
+  }
+
+  private startSegment() {
+    const recorder = new MediaRecorder(this.stream, this.options)
+    const sequence = ++this.sequence
+    const parts: Blob[] = []
+    let startedAt = Date.now()
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data)
+    }
+
+    recorder.onstart = () => {
+      startedAt = Date.now()
+      if (sequence === 1) this.onstart?.()
+    }
+
+    recorder.onstop = () => {
+      this.recorders.delete(recorder)
+      if (parts.length === 0) return
+
+      this.onsegment?.({
+        blob: new Blob(parts, { type: recorder.mimeType || parts[0].type }),
+        sequence,
+        startedAt,
+        endedAt: Date.now()
+      })
+    }
+
+    recorder.onerror = (event) => {
+      this.recorders.delete(recorder)
+      this.onerror?.(event)
+    }
+
+    this.recorders.add(recorder)
+    this.current = recorder
+    recorder.start()
+  }
+}
@@ -0,0 +1,97 @@
+// Energy-based voice activity detection on top of an AnalyserNode.
+// Tracks a slowly adapting noise floor and treats anything clearly above it as speech.
+
+const POLL_INTERVAL_MS = 30
+// Level must be this far above the noise floor to count as speech
+const SPEECH_MARGIN_DB = 10
+// ...and above this absolute level, so a silent tab never "speaks"
+const MIN_SPEECH_DB = -50
+// Keep reporting speech briefly after the level drops, so short gaps between words don't count as pauses
+const HANGOVER_MS = 250
+// How long speech intervals are remembered for segment lookups
+const HISTORY_MS = 120000
+
+interface SpeechInterval {
+  start: number
+  end: number | null
+}
+
+export class VoiceActivityDetector {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private samples: Float32Array
+  private noiseFloor = -60
+  private intervals: SpeechInterval[] = []
+  private lastSpeechAt = 0
+
+  constructor(private analyser: AnalyserNode) {
+    this.samples = new Float32Array(analyser.fftSize)
+  }
+
+  get isSpeaking(): boolean {
+    const last = this.intervals[this.intervals.length - 1]
+    return !!last && last.end === null
+  }
+
+  // Milliseconds since speech last ended (0 while speaking)
+  get silenceDuration(): number {
+    if (this.isSpeaking) return 0
+    const last = this.intervals[this.intervals.length - 1]
+    return last ? Date.now() - last.end : Infinity
+  }
+
+  start() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.closeInterval(Date.now())
+  }
+
+  // Total milliseconds of speech detected between two wall-clock times
+  speechDurationBetween(start: number, end: number): number {
+    return this.intervals.reduce((total, interval) => {
+      const overlapStart = Math.max(start, interval.start)
+      const overlapEnd = Math.min(end, interval.end ?? Date.now())
+      return total + Math.max(0, overlapEnd - overlapStart)
+    }, 0)
+  }
+
+  private poll() {
+    const now = Date.now()
+    this.analyser.getFloatTimeDomainData(this.samples)
+
+    let sumSquares = 0
+    for (const sample of this.samples) sumSquares += sample * sample
+    const rms = Math.sqrt(sumSquares / this.samples.length)
+    const level = rms > 0 ? 20 * Math.log10(rms) : -100
+
+    const loudEnough = level > MIN_SPEECH_DB && level > this.noiseFloor + SPEECH_MARGIN_DB
+
+    // Floor drops quickly to quiet passages and rises slowly, so sustained speech doesn't become "noise"
+    this.noiseFloor = level < this.noiseFloor
+      ? this.noiseFloor * 0.9 + level * 0.1
+      : this.noiseFloor * 0.999 + level * 0.001
+
+    if (loudEnough) {
+      this.lastSpeechAt = now
+      if (!this.isSpeaking) this.intervals.push({ start: now, end: null })
+    } else if (this.isSpeaking && now - this.lastSpeechAt > HANGOVER_MS) {
+      this.closeInterval(this.lastSpeechAt)
+    }
+
+    // Drop history nobody will ask about again
+    while (this.intervals.length > 1 && this.intervals[0].end !== null && now - this.intervals[0].end > HISTORY_MS) {
+      this.intervals.shift()
+    }
+  }
+
+  private closeInterval(end: number) {
+    const last = this.intervals[this.intervals.length - 1]
+    if (last && last.end === null) last.end = Math.max(end, last.start)
+  }
+}
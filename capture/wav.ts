@@ -0,0 +1,25 @@
+// Wrap mono 16-bit PCM samples in a WAV container (LINEAR16 with a RIFF header)
+export function encodeWav(samples: Int16Array, sampleRate: number): Blob {
+  const header = new DataView(new ArrayBuffer(44))
+  const dataLength = samples.length * 2
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  header.setUint32(4, 36 + dataLength, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  header.setUint32(16, 16, true) // fmt chunk size
+  header.setUint16(20, 1, true) // PCM
+  header.setUint16(22, 1, true) // mono
+  header.setUint32(24, sampleRate, true)
+  header.setUint32(28, sampleRate * 2, true) // byte rate
+  header.setUint16(32, 2, true) // block align
+  header.setUint16(34, 16, true) // bits per sample
+  writeString(36, 'data')
+  header.setUint32(40, dataLength, true)
+
+  return new Blob([header.buffer, samples.buffer.slice(samples.byteOffset, samples.byteOffset + dataLength)], { type: 'audio/wav' })
+}
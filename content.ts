@@ -1,4 +1,20 @@
-console.log('YouTube Auto Transcriber content script loaded')
+import { Storage } from "@plasmohq/storage"
+
+import { AudioCapture, toAudioChunkMessage } from "~capture/audio-capture"
+import type { RecordedSegment } from "~capture/segmenting-recorder"
+import { onMessage, sendMessage } from "~messaging"
+import { CaptionOverlay } from "~overlay/caption-overlay"
+import { CAPTION_SETTING_KEYS, getCaptionSettings } from "~overlay/settings"
+import type { PlaybackAnchor } from "~playback/timeline"
+import { getSettings, watchSettings } from "~settings"
+import { getSiteAdapter } from "~sites"
+
+const storage = new Storage()
+
+// Finds the player, its metadata and the video to follow on this site
+const site = getSiteAdapter(location.href)
+
+console.log(`Auto Transcriber content script loaded (${site.label})`)
 
 // Add more debugging to verify script is working
 console.log('Content script environment check:')
@@ -8,21 +24,103 @@ console.log('- Chrome runtime available:', typeof chrome !== 'undefined' && !!ch
 console.log('- Content script timestamp:', new Date().toISOString())
 
 let recordingIndicator: HTMLElement | null = null
-let mediaRecorder: MediaRecorder | null = null
+let audioCapture: AudioCapture | null = null
 let audioStream: MediaStream | null = null
-let audioContext: AudioContext | null = null
-let analyser: AnalyserNode | null = null
-
-function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve) => {
-    const reader = new FileReader()
-    reader.onloadend = () => resolve(reader.result as string)
-    reader.readAsDataURL(blob)
-  })
+let videoElement: HTMLVideoElement | null = null
+let captionOverlay: CaptionOverlay | null = null
+// The offscreen document records this tab's audio; this page only follows playback
+let tabCaptureActive = false
+
+// Events that change how wall-clock time maps onto the video's position
+const PLAYBACK_EVENTS = ['play', 'playing', 'pause', 'waiting', 'seeked', 'ratechange']
+
+// Snapshot of where the player is right now
+function getPlaybackAnchor(): PlaybackAnchor | undefined {
+  const video = videoElement || site.findVideo()
+  if (!video) return undefined
+
+  return {
+    wallTime: Date.now(),
+    videoTime: video.currentTime,
+    playbackRate: video.playbackRate,
+    // Buffering stalls the video without firing 'pause'
+    paused: video.paused || video.seeking || video.readyState < HTMLMediaElement.HAVE_FUTURE_DATA
+  }
+}
+
+function handlePlaybackEvent(event: Event) {
+  const playback = getPlaybackAnchor()
+  if (!playback) return
+
+  console.log(`Playback ${event.type}: ${playback.videoTime.toFixed(2)}s @ ${playback.playbackRate}x`)
+  sendMessage({ type: 'playbackEvent', event: event.type, playback })
+}
+
+function watchPlayback() {
+  unwatchPlayback()
+  videoElement = site.findVideo()
+  if (!videoElement) {
+    console.warn('⚠️ No <video> element found, timestamps will use recording time')
+    return
+  }
+  PLAYBACK_EVENTS.forEach(name => videoElement.addEventListener(name, handlePlaybackEvent))
+}
+
+function unwatchPlayback() {
+  if (videoElement) {
+    PLAYBACK_EVENTS.forEach(name => videoElement.removeEventListener(name, handlePlaybackEvent))
+    videoElement = null
+  }
+}
+
+function isRecording(): boolean {
+  return tabCaptureActive || !!audioCapture?.isRecording
+}
+
+// The overlay lives inside the player so it follows it into fullscreen and theater mode
+function getPlayerContainer(): HTMLElement | null {
+  return site.getPlayerContainer(videoElement || site.findVideo())
+}
+
+async function showCaptionOverlay() {
+  const settings = await getCaptionSettings()
+  if (!settings.enabled) return
+
+  const container = getPlayerContainer()
+  if (!container) {
+    console.warn('⚠️ No player found for the caption overlay')
+    return
+  }
+
+  captionOverlay = captionOverlay || new CaptionOverlay(settings)
+  captionOverlay.applySettings(settings)
+  captionOverlay.clear()
+  captionOverlay.show(container, videoElement || site.findVideo())
+}
+
+function hideCaptionOverlay() {
+  captionOverlay?.hide()
 }
 
+// Restyle (or show/hide) the overlay as soon as a caption setting changes in the popup
+storage.watch(Object.fromEntries(CAPTION_SETTING_KEYS.map(key => [key, async () => {
+  const settings = await getCaptionSettings()
+  captionOverlay?.applySettings(settings)
+
+  if (!settings.enabled) {
+    hideCaptionOverlay()
+  } else if (isRecording() && !captionOverlay?.isShown) {
+    showCaptionOverlay()
+  }
+}])))
+
+// A new segment length applies from the segment being recorded; the bitrate from the next recording
+watchSettings((settings) => {
+  audioCapture?.setSegmentLength(settings.segmentLengthSeconds * 1000)
+})
+
 // Listen for messages from background script
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+onMessage((message, sender, sendResponse) => {
   console.log('=== CONTENT SCRIPT MESSAGE RECEIVED ===')
   console.log('Content script received message:', message)
   console.log('Sender:', sender)
@@ -30,31 +128,100 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   
   if (message.type === 'ping') {
     console.log('Responding to ping')
-    sendResponse({ success: true, message: 'Content script is ready' })
+    const video = site.findVideo()
+    sendResponse({
+      success: true,
+      message: 'Content script is ready',
+      site: site.id,
+      video: video ? site.getMetadata(video) : undefined
+    })
   } else if (message.type === 'recordingState') {
     console.log('Updating recording indicator:', message.isRecording)
     updateRecordingIndicator(message.isRecording)
     sendResponse({ success: true })
   } else if (message.type === 'startRecording') {
-    console.log('🎬 START RECORDING MESSAGE RECEIVED - Starting screen capture...')
-    startScreenCapture()
+    if (message.tabCapture) {
+      console.log('🎬 START RECORDING MESSAGE RECEIVED - Audio captured by the extension')
+      startPlaybackTracking()
+    } else {
+      console.log('🎬 START RECORDING MESSAGE RECEIVED - Starting screen capture...')
+      startScreenCapture()
+    }
     sendResponse({ success: true })
   } else if (message.type === 'stopRecording') {
-    console.log('⏹️ STOP RECORDING MESSAGE RECEIVED - Stopping screen capture...')
-    stopScreenCapture()
+    console.log('⏹️ STOP RECORDING MESSAGE RECEIVED - Stopping capture...')
+    if (tabCaptureActive) {
+      stopPlaybackTracking()
+    } else {
+      stopScreenCapture()
+    }
     sendResponse({ success: true })
+  } else if (message.type === 'chunkProcessed') {
+    captionOverlay?.addText(message.text, message.words)
+    sendResponse({ success: true })
+  } else if (message.type === 'seekTo') {
+    const video = videoElement || site.findVideo()
+    if (video) {
+      console.log(`⏩ Seeking to ${message.time}s`)
+      video.currentTime = message.time
+    }
+    sendResponse({ success: !!video })
   } else if (message.type === 'getRecordingState') {
-    const isRecording = mediaRecorder?.state === 'recording'
-    console.log('Getting recording state:', isRecording)
-    sendResponse({ isRecording })
+    console.log('Getting recording state:', isRecording())
+    sendResponse({ isRecording: isRecording() })
+  } else if (message.type === 'getCaptionTracks') {
+    if (!site.getCaptionTracks) {
+      sendResponse({ tracks: [] })
+    } else {
+      site.getCaptionTracks()
+        .then(tracks => sendResponse({ tracks }))
+        .catch(error => {
+          console.warn('⚠️ Failed to list caption tracks:', error)
+          sendResponse({ tracks: [] })
+        })
+    }
+  } else if (message.type === 'loadCaptions') {
+    if (!site.loadCaptionTrack) {
+      sendResponse({ success: false, error: `${site.label} captions aren't supported` })
+    } else {
+      console.log('📝 Loading caption track', message.trackId)
+      site.loadCaptionTrack(message.trackId)
+        .then(cues => sendResponse({ success: true, cues }))
+        .catch(error => {
+          console.error('❌ Failed to load caption track:', error)
+          sendResponse({ success: false, error: error.message })
+        })
+    }
   } else {
-    console.log('❌ Unknown message type:', message.type)
+    // Valid, but meant for the background or popup
+    console.warn(`❌ Content script doesn't handle "${message.type}" messages`)
+    sendResponse({ success: false, error: `Content script doesn't handle "${message.type}" messages` })
   }
   
   console.log('=== END MESSAGE HANDLING ===')
   return true
 })
 
+// With tabCapture the audio never passes through this page, but timestamps still come from
+// the player here and the captions are still drawn over it
+function startPlaybackTracking() {
+  tabCaptureActive = true
+  watchPlayback()
+  showCaptionOverlay()
+
+  const playback = getPlaybackAnchor()
+  if (playback) {
+    sendMessage({ type: 'playbackEvent', event: 'capture', playback })
+  }
+}
+
+function stopPlaybackTracking() {
+  tabCaptureActive = false
+  hideCaptionOverlay()
+  unwatchPlayback()
+}
+
+// Fallback when tabCapture isn't available: ask the user to share the tab through the picker
 async function startScreenCapture() {
   try {
     console.log('🎬 === STARTING SCREEN CAPTURE ===')
@@ -105,149 +272,36 @@ async function startScreenCapture() {
     const audioOnlyStream = new MediaStream(audioTracks)
     console.log('Created audio-only stream from', audioTracks.length, 'audio tracks')
     
-    // Set up audio analysis
-    try {
-      console.log('Setting up audio context...')
-      audioContext = new AudioContext({ sampleRate: 44100 })
-      const source = audioContext.createMediaStreamSource(audioOnlyStream)
-      analyser = audioContext.createAnalyser()
-      analyser.fftSize = 256
-      source.connect(analyser)
-      
-      // Start monitoring audio levels
-      monitorAudioLevels()
-      
-      console.log('✅ Audio context created successfully, sample rate:', audioContext.sampleRate)
-    } catch (error) {
-      console.error('❌ Failed to create audio context:', error)
-    }
-    
-    // Use a more explicit WebM configuration that's compatible with Google Speech API
-    console.log('Configuring MediaRecorder for WebM audio...')
-    
-    // Check what formats are supported
-    const supportedTypes = [
-      'audio/webm;codecs=vorbis',  // Try Vorbis first - often more compatible
-      'audio/webm;codecs=opus',    // Opus as fallback
-      'audio/webm'                  // Generic WebM as last resort
-    ]
-    
-    let selectedType = supportedTypes.find(type => MediaRecorder.isTypeSupported(type))
-    console.log('Supported audio types:', supportedTypes.map(type => `${type}: ${MediaRecorder.isTypeSupported(type) ? 'YES' : 'NO'}`))
-    console.log('Selected audio type:', selectedType)
-    
-    // Force Vorbis if available for better Google Speech API compatibility
-    if (MediaRecorder.isTypeSupported('audio/webm;codecs=vorbis')) {
-      selectedType = 'audio/webm;codecs=vorbis'
-      console.log('✅ Forcing Vorbis codec for better Google Speech API compatibility')
-    } else if (MediaRecorder.isTypeSupported('audio/webm;codecs=opus')) {
-      selectedType = 'audio/webm;codecs=opus'
-      console.log('⚠️ Using Opus codec (may have compatibility issues)')
-    } else {
-      console.log('⚠️ Using generic WebM format (compatibility unknown)')
-    }
-    
-    const options: MediaRecorderOptions = {
-      audioBitsPerSecond: 128000
-    }
-    
-    if (selectedType) {
-      options.mimeType = selectedType
-    }
-    
-    console.log('MediaRecorder options:', options)
-    
-    console.log('Creating MediaRecorder with audio stream...')
-    mediaRecorder = new MediaRecorder(audioOnlyStream, options)
-    console.log('✅ MediaRecorder created successfully')
+    const settings = await getSettings()
+    audioCapture = new AudioCapture(audioOnlyStream, {
+      vadEnabled: settings.vadEnabled,
+      audioEncoding: settings.audioEncoding,
+      segmentLengthMs: settings.segmentLengthSeconds * 1000,
+      audioBitrate: settings.audioBitrateKbps * 1000
+    })
     
-    mediaRecorder.ondataavailable = async (event) => {
-      console.log(`🎵 === MEDIARECORDER DATA AVAILABLE ===`)
-      console.log(`Event data size: ${event.data.size} bytes`)
-      console.log(`Event data type: ${event.data.type}`)
-      console.log(`Event timestamp: ${event.timeStamp}`)
-      
-      if (event.data.size > 0) {
-        console.log(`=== AUDIO CHUNK CAPTURED ===`)
-        console.log(`Audio chunk available: ${event.data.size} bytes`)
-        console.log(`Audio chunk type: ${event.data.type}`)
-        console.log(`Audio chunk timestamp: ${event.timeStamp}`)
-        
-        // Analyze the audio data for patterns
-        console.log(`Audio chunk analysis:`)
-        console.log(`- Size: ${event.data.size} bytes`)
-        console.log(`- Type: ${event.data.type}`)
-        console.log(`- Timestamp: ${event.timeStamp}`)
-        console.log(`- Duration estimate: ${(event.data.size / 128000 * 8).toFixed(2)} seconds (based on 128kbps)`)
-        
-        try {
-          // Don't try to convert to LINEAR16 - just send the original WebM data
-          // This avoids the decoding errors entirely
-          console.log('Converting blob to base64...')
-          const base64Data = await blobToBase64(event.data)
-          
-          console.log(`Converted to base64: ${base64Data.length} characters`)
-          console.log(`Base64 preview: ${base64Data.substring(0, 100)}...`)
-          
-          console.log('Sending audio chunk to background script...')
-          chrome.runtime.sendMessage({
-            type: 'audioChunk',
-            audioData: base64Data,
-            size: event.data.size,
-            mimeType: event.data.type,
-            encoding: 'WEBM_ORIGINAL',
-            sampleRate: audioContext?.sampleRate || 44100
-          })
-          
-          console.log(`✅ Audio chunk sent to background script`)
-          
-        } catch (error) {
-          console.error('❌ Failed to process audio chunk:', error)
-          
-          // Last resort: try sending the original blob
-          try {
-            console.log('Trying fallback approach...')
-            const base64Data = await blobToBase64(event.data)
-            chrome.runtime.sendMessage({
-              type: 'audioChunk',
-              audioData: base64Data,
-              size: event.data.size,
-              mimeType: event.data.type,
-              encoding: 'ORIGINAL'
-            })
-            console.log('Fallback audio chunk sent')
-          } catch (fallbackError) {
-            console.error('❌ Even fallback failed:', fallbackError)
-          }
-        }
-        console.log(`=== END AUDIO CHUNK ===`)
-      } else {
-        console.warn('⚠️ Received empty audio chunk')
-      }
-      console.log(`🎵 === END MEDIARECORDER DATA ===`)
-    }
+    audioCapture.onsegment = (segment) => sendAudioSegment(segment)
     
-    mediaRecorder.onerror = (event) => {
+    audioCapture.onerror = (event) => {
       console.error('❌ MediaRecorder error:', event)
-      chrome.runtime.sendMessage({
+      sendMessage({
         type: 'recordingError',
         error: 'MediaRecorder error occurred'
       })
     }
     
-    mediaRecorder.onstop = () => {
-      console.log('⏹️ MediaRecorder stopped')
-    }
-    
-    mediaRecorder.onstart = () => {
+    audioCapture.onstart = () => {
       console.log('✅ MediaRecorder started successfully')
+      sendMessage({ type: 'recordingStarted', playback: getPlaybackAnchor() })
+      console.log('recordingStarted message sent to background')
     }
     
-    // Start recording with overlapping chunks to prevent speech cutoff
-    // Use 30-second chunks with 5-second overlap for better transcription
-    console.log('🎬 Starting MediaRecorder with 30-second overlapping chunks...')
-    mediaRecorder.start(25000) // 25 seconds + 5 second overlap buffer
-    console.log('✅ MediaRecorder.start() called')
+    // Follow pauses, seeks and speed changes so chunks can be stamped in video time
+    watchPlayback()
+    
+    await audioCapture.start()
+    
+    showCaptionOverlay()
     
     audioStream = stream
     console.log('Audio stream saved')
@@ -262,8 +316,6 @@ async function startScreenCapture() {
     
     console.log('🎉 === SCREEN CAPTURE SETUP COMPLETE ===')
     console.log('Audio recording started successfully')
-    chrome.runtime.sendMessage({ type: 'recordingStarted' })
-    console.log('recordingStarted message sent to background')
     
     // Handle stream end (user stops sharing)
     audioTracks.forEach(track => {
@@ -284,43 +336,42 @@ async function startScreenCapture() {
       errorMessage = 'No screen sharing source found. Please try again.'
     }
     
-    chrome.runtime.sendMessage({
+    sendMessage({
       type: 'recordingError',
       error: errorMessage
     })
   }
 }
 
-function monitorAudioLevels() {
-  if (!analyser) return
+async function sendAudioSegment(segment: RecordedSegment) {
+  // Capture the player position before any async work so it matches the segment's end
+  const playback = getPlaybackAnchor()
+  const { blob } = segment
   
-  const bufferLength = analyser.frequencyBinCount
-  const dataArray = new Uint8Array(bufferLength)
+  console.log(`=== AUDIO SEGMENT ${segment.sequence} CAPTURED ===`)
+  console.log(`- Size: ${blob.size} bytes`)
+  console.log(`- Type: ${blob.type}`)
+  console.log(`- Duration: ${((segment.endedAt - segment.startedAt) / 1000).toFixed(2)} seconds`)
   
-  function checkAudio() {
-    if (!analyser) return
-    
-    analyser.getByteFrequencyData(dataArray)
-    
-    // Calculate average volume
-    const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength
+  try {
+    const message = await toAudioChunkMessage(segment, audioCapture?.sampleRate || 44100)
     
-    // Log audio levels every 5 seconds
-    if (Math.random() < 0.1) { // ~10% chance each frame
-      console.log(`Audio level: ${average.toFixed(2)}/255, non-zero frequencies: ${dataArray.filter(v => v > 0).length}/${bufferLength}`)
-    }
+    console.log('Sending audio segment to background script...')
+    sendMessage({ ...message, playback })
     
-    // Continue monitoring
-    requestAnimationFrame(checkAudio)
+    console.log(`✅ Audio segment sent to background script`)
+  } catch (error) {
+    console.error('❌ Failed to process audio segment:', error)
   }
-  
-  checkAudio()
+  console.log(`=== END AUDIO SEGMENT ===`)
 }
 
 function stopScreenCapture() {
-  if (mediaRecorder && mediaRecorder.state !== 'inactive') {
-    mediaRecorder.stop()
-    mediaRecorder = null
+  hideCaptionOverlay()
+  
+  if (audioCapture) {
+    audioCapture.stop()
+    audioCapture = null
   }
   
   if (audioStream) {
@@ -328,16 +379,12 @@ function stopScreenCapture() {
     audioStream = null
   }
   
-  if (audioContext) {
-    audioContext.close()
-    audioContext = null
-    analyser = null
-  }
+  unwatchPlayback()
   
   hideInstructionModal()
   
   console.log('Audio recording stopped')
-  chrome.runtime.sendMessage({ type: 'recordingStopped' })
+  sendMessage({ type: 'recordingStopped' })
 }
 
 function showInstructionModal() {
@@ -370,11 +417,11 @@ function showInstructionModal() {
       ">
         <h2 style="margin: 0 0 20px 0; color: #1a73e8;">🎤 Audio Capture Required</h2>
         <p style="margin: 0 0 20px 0; color: #333; line-height: 1.5;">
-          To transcribe this YouTube video, please:
+          To transcribe this video, please:
         </p>
         <ol style="text-align: left; color: #333; line-height: 1.6; margin: 0 0 20px 0;">
           <li>In the sharing dialog, click <strong>"Tab"</strong> at the top</li>
-          <li>Select the <strong>YouTube tab</strong> you want to transcribe</li>
+          <li>Select the <strong>tab</strong> with the video you want to transcribe</li>
           <li>Make sure to check <strong>"Share tab audio"</strong> at the bottom</li>
           <li>Click <strong>"Share"</strong></li>
         </ol>
@@ -437,7 +484,7 @@ function updateRecordingIndicator(isRecording: boolean) {
     
     // Click to stop recording
     recordingIndicator.addEventListener('click', () => {
-      chrome.runtime.sendMessage({ type: 'stopRecording' })
+      sendMessage({ type: 'stopRecording' })
     })
     
     document.body.appendChild(recordingIndicator)
@@ -449,4 +496,4 @@ function updateRecordingIndicator(isRecording: boolean) {
 }
 
 // Notify background that content script is ready
-chrome.runtime.sendMessage({ type: 'contentScriptReady' })
+sendMessage({ type: 'contentScriptReady' })
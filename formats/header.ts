@@ -0,0 +1,23 @@
+import { formatTimestamp } from "~speech/utils"
+
+import type { TranscriptHeader } from "./types"
+
+// Where the transcript came from, one "Name: value" line per known detail
+export function formatSourceLines(header: TranscriptHeader): string[] {
+  const { video, recordedRange } = header
+  const lines: string[] = []
+
+  if (video) {
+    lines.push(`Title: ${video.title}`)
+    if (video.channel) lines.push(`Channel: ${video.channel}`)
+    if (video.videoId) lines.push(`Video ID: ${video.videoId}`)
+    lines.push(`URL: ${video.canonicalUrl || video.url}`)
+    if (video.uploadDate) lines.push(`Uploaded: ${video.uploadDate}`)
+    if (video.duration !== undefined) lines.push(`Video Duration: ${formatTimestamp(video.duration)}`)
+  }
+  if (recordedRange) {
+    lines.push(`Recorded: ${formatTimestamp(recordedRange.start)} to ${formatTimestamp(recordedRange.end)}`)
+  }
+
+  return lines
+}
@@ -0,0 +1,35 @@
+import type { TranscriptionEntry } from "~speech"
+
+import { formatSrt, formatVtt } from "./subtitles"
+import { formatText } from "./text"
+import type { TranscriptFormat, TranscriptHeader, TranscriptOptions } from "./types"
+
+export type { SubtitleCue, TranscriptFormat, TranscriptHeader, TranscriptOptions } from "./types"
+
+export const DEFAULT_TRANSCRIPT_FORMAT: TranscriptFormat = 'txt'
+
+export const TRANSCRIPT_FORMAT_OPTIONS: { id: TranscriptFormat; label: string; mimeType: string }[] = [
+  { id: 'txt', label: 'Plain text (.txt)', mimeType: 'text/plain' },
+  { id: 'srt', label: 'SubRip subtitles (.srt)', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT subtitles (.vtt)', mimeType: 'text/vtt' }
+]
+
+export function formatTranscript(
+  format: TranscriptFormat,
+  entries: TranscriptionEntry[],
+  header: TranscriptHeader,
+  options: TranscriptOptions = {}
+): string {
+  switch (format) {
+    case 'srt':
+      return formatSrt(entries, options)
+    case 'vtt':
+      return formatVtt(entries, header, options)
+    default:
+      return formatText(entries, header, options)
+  }
+}
+
+export function getFormatMimeType(format: TranscriptFormat): string {
+  return TRANSCRIPT_FORMAT_OPTIONS.find(option => option.id === format)?.mimeType || 'text/plain'
+}
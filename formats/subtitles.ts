@@ -0,0 +1,193 @@
+import { isLowConfidence, labelSpeaker } from "~speech"
+import type { TranscriptionEntry, WordTiming } from "~speech"
+import { getEntryLines } from "~translation"
+
+import { formatSourceLines } from "./header"
+import type { SubtitleCue, TranscriptHeader, TranscriptOptions } from "./types"
+
+// Readability limits for a single cue: two lines of ~42 characters, on screen for at most 7 seconds
+const MAX_LINE_LENGTH = 42
+const MAX_CUE_LENGTH = MAX_LINE_LENGTH * 2
+const MAX_CUE_DURATION = 7
+const MIN_CUE_DURATION = 1
+// A pause this long between timed words starts a new cue
+const MAX_WORD_GAP = 1.5
+
+// Split entries into readable cues, spreading each entry's time span across its cues by text length.
+// With translations shown too, each language gets one line per cue, cut into the same number of pieces.
+// The speaker's name leads the entry's first cue, after a "(?)" when the recognizer wasn't confident.
+// Entries with word timings get cues cut exactly at their words.
+export function buildCues(entries: TranscriptionEntry[], options: TranscriptOptions = {}): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+
+  entries.forEach((entry, index) => {
+    // Never let a cue run past the start of the next entry
+    const nextStart = entries[index + 1]?.startTime
+    const endTime = nextStart !== undefined && nextStart > entry.startTime
+      ? Math.min(entry.endTime, nextStart)
+      : entry.endTime
+    const duration = Math.max(endTime - entry.startTime, MIN_CUE_DURATION)
+
+    const [firstLine, ...otherLines] = getEntryLines(entry, options.translationOutput || 'original')
+    const flag = isLowConfidence(entry, options.lowConfidenceThreshold || 0) ? '(?) ' : ''
+    const text = flag + labelSpeaker(entry, firstLine, options.speakerNames)
+
+    // Word timings only describe the original text
+    if (entry.words?.length && otherLines.length === 0 && firstLine === entry.text) {
+      const wordCues = buildWordCues(entry.words, endTime)
+      wordCues[0].text = flag + labelSpeaker(entry, wordCues[0].text, options.speakerNames)
+      wordCues.forEach(cue => cues.push({ ...cue, text: wrapLines(cue.text) }))
+      return
+    }
+
+    const pieces = splitText(text, duration, otherLines.length > 0 ? MAX_LINE_LENGTH : MAX_CUE_LENGTH)
+    const otherPieces = otherLines.map(line => splitEvenly(line, pieces.length))
+    const totalLength = pieces.reduce((sum, piece) => sum + piece.length, 0)
+
+    let cursor = entry.startTime
+    pieces.forEach((piece, index) => {
+      const share = duration * (piece.length / totalLength)
+      cues.push({
+        startTime: cursor,
+        endTime: cursor + share,
+        text: otherLines.length > 0
+          ? [piece, ...otherPieces.map(linePieces => linePieces[index])].filter(Boolean).join('\n')
+          : wrapLines(piece)
+      })
+      cursor += share
+    })
+  })
+
+  return cues
+}
+
+// Group timed words into cues within the length and duration limits, breaking at pauses
+function buildWordCues(words: WordTiming[], endLimit: number): SubtitleCue[] {
+  const groups: WordTiming[][] = []
+  let current: WordTiming[] = []
+  let length = 0
+
+  for (const word of words) {
+    const previous = current[current.length - 1]
+    const tooLong = length + 1 + word.word.length > MAX_CUE_LENGTH
+    const tooSlow = previous && word.endTime - current[0].startTime > MAX_CUE_DURATION
+    const paused = previous && word.startTime - previous.endTime > MAX_WORD_GAP
+
+    if (previous && (tooLong || tooSlow || paused)) {
+      groups.push(current)
+      current = []
+      length = 0
+    }
+    current.push(word)
+    length += (length ? 1 : 0) + word.word.length
+  }
+  if (current.length > 0) groups.push(current)
+
+  return groups.map((group, index) => {
+    const startTime = group[0].startTime
+    const nextStart = groups[index + 1]?.[0].startTime ?? Math.max(endLimit, startTime)
+    // Short words would flash by; hold them a little longer when there's room before the next cue
+    const endTime = Math.min(Math.max(group[group.length - 1].endTime, startTime + MIN_CUE_DURATION), nextStart)
+    return {
+      startTime,
+      endTime: Math.max(endTime, startTime),
+      text: group.map(word => word.word).join(' ')
+    }
+  })
+}
+
+// Break text at word boundaries so each piece fits the length and duration limits
+function splitText(text: string, duration: number, maxLength: number = MAX_CUE_LENGTH): string[] {
+  const words = text.split(/\s+/).filter(Boolean)
+  const minPieces = Math.ceil(duration / MAX_CUE_DURATION)
+  const targetLength = Math.min(maxLength, Math.ceil(text.length / minPieces))
+
+  const pieces: string[] = []
+  let current = ''
+
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > targetLength) {
+      pieces.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+  if (current) pieces.push(current)
+
+  return pieces
+}
+
+// Break text at word boundaries into exactly `count` pieces of similar length (some may be empty)
+function splitEvenly(text: string, count: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean)
+  const targetLength = text.length / count
+
+  const pieces: string[] = []
+  let current = ''
+  for (const word of words) {
+    if (current && pieces.length < count - 1 && current.length + 1 + word.length / 2 > targetLength) {
+      pieces.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+  pieces.push(current)
+
+  while (pieces.length < count) pieces.push('')
+  return pieces
+}
+
+// Wrap a cue onto at most two roughly balanced lines
+function wrapLines(text: string): string {
+  if (text.length <= MAX_LINE_LENGTH) return text
+
+  const middle = Math.floor(text.length / 2)
+  const before = text.lastIndexOf(' ', middle)
+  const after = text.indexOf(' ', middle)
+  const splitAt = before === -1 ? after : after === -1 ? before
+    : (middle - before <= after - middle ? before : after)
+
+  if (splitAt === -1) return text
+  return `${text.slice(0, splitAt)}\n${text.slice(splitAt + 1)}`
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const h = Math.floor(totalMs / 3600000)
+  const m = Math.floor((totalMs % 3600000) / 60000)
+  const s = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`
+}
+
+// SRT has no comment syntax - anything before the first cue is shown or rejected by players -
+// so unlike the text and VTT exports it carries no header with the video's details
+export function formatSrt(entries: TranscriptionEntry[], options?: TranscriptOptions): string {
+  return buildCues(entries, options)
+    .map((cue, index) => [
+      index + 1,
+      `${formatCueTime(cue.startTime, ',')} --> ${formatCueTime(cue.endTime, ',')}`,
+      cue.text
+    ].join('\n'))
+    .join('\n\n') + '\n'
+}
+
+export function formatVtt(entries: TranscriptionEntry[], header: TranscriptHeader, options?: TranscriptOptions): string {
+  let content = `WEBVTT\n\n`
+  content += `NOTE\nVideo Transcription\n`
+  // A NOTE ends at the first blank line and can't contain "-->"
+  formatSourceLines(header).forEach(line => {
+    content += `${line.replace(/-->/g, '->')}\n`
+  })
+  content += `Generated: ${header.generatedAt}\n`
+  content += `Session Duration: ${header.sessionDuration}\n\n`
+
+  content += buildCues(entries, options)
+    .map(cue => `${formatCueTime(cue.startTime, '.')} --> ${formatCueTime(cue.endTime, '.')}\n${cue.text}`)
+    .join('\n\n')
+
+  return content + '\n'
+}
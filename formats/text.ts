@@ -0,0 +1,45 @@
+import { isLowConfidence, labelSpeaker } from "~speech"
+import type { TranscriptionEntry } from "~speech"
+import { getEntryLines } from "~translation"
+
+import { formatSourceLines } from "./header"
+import type { TranscriptHeader, TranscriptOptions } from "./types"
+
+export function formatText(entries: TranscriptionEntry[], header: TranscriptHeader, options: TranscriptOptions = {}): string {
+  let content = `Video Transcription\n`
+  formatSourceLines(header).forEach(line => {
+    content += `${line}\n`
+  })
+  content += `Generated: ${header.generatedAt}\n`
+  content += `Total Segments: ${entries.length}\n`
+  content += `Session Duration: ${header.sessionDuration}\n`
+  content += `\n${'='.repeat(60)}\n\n`
+
+  if (entries.length === 0) {
+    content += `No transcription data captured.\n`
+    content += `This could be due to:\n`
+    content += `- Silent or very quiet audio\n`
+    content += `- Audio format not supported by Speech-to-Text API\n`
+    content += `- Network issues with the transcription service\n`
+    content += `- Video without clear speech\n`
+    content += `- Audio encoding mismatch (try different browsers)\n`
+    return content
+  }
+
+  // Show chronological transcript
+  content += `--- TRANSCRIPT ---\n\n`
+  // Further languages go underneath, lined up with the first
+  entries.forEach((entry) => {
+    const [text, ...otherLines] = getEntryLines(entry, options.translationOutput || 'original')
+    const flag = isLowConfidence(entry, options.lowConfidenceThreshold || 0)
+      ? ` [low confidence: ${Math.round(entry.confidence * 100)}%]`
+      : ''
+    content += `[${entry.timestamp}]: ${labelSpeaker(entry, text, options.speakerNames)}${flag}\n`
+    otherLines.forEach(line => {
+      content += `${' '.repeat(entry.timestamp.length + 4)}${line}\n`
+    })
+    content += `\n`
+  })
+
+  return content
+}
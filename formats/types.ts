@@ -0,0 +1,31 @@
+import type { VideoMetadata } from "~sites"
+import type { SpeakerNames } from "~speech"
+import type { TranslationOutput } from "~translation"
+
+export type TranscriptFormat = 'txt' | 'srt' | 'vtt'
+
+// How entries are written, whatever the format
+export interface TranscriptOptions {
+  // Original text, its translations, or both
+  translationOutput?: TranslationOutput
+  // Custom names for diarized speakers
+  speakerNames?: SpeakerNames
+  // Entries scored below this are marked as uncertain
+  lowConfidenceThreshold?: number
+}
+
+// Session details written at the top of formats that have room for them
+export interface TranscriptHeader {
+  generatedAt: string
+  sessionDuration: string
+  // The video the transcript is of, when the page described it
+  video?: VideoMetadata
+  // Part of the video that was played while recording, in seconds
+  recordedRange?: { start: number; end: number }
+}
+
+export interface SubtitleCue {
+  startTime: number
+  endTime: number
+  text: string
+}
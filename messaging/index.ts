@@ -0,0 +1,82 @@
+import { PROTOCOL_VERSION, parseMessage } from "./protocol"
+import type { ExtensionMessage, ResponseFor, WireMessage } from "./protocol"
+
+export type {
+  ActiveSession,
+  AudioChunkMessage,
+  ChunkEncoding,
+  ChunkProcessedMessage,
+  ExtensionMessage,
+  MessageType,
+  ResponseFor
+} from "./protocol"
+export { PROTOCOL_VERSION, getMessageTabId, parseMessage } from "./protocol"
+
+type MessageHandler = (
+  message: ExtensionMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: unknown) => void
+) => boolean | void | Promise<void>
+
+function toWire(message: ExtensionMessage): WireMessage {
+  return { ...message, version: PROTOCOL_VERSION }
+}
+
+// Send to the background and any open extension pages. Resolves to undefined when nothing is
+// listening (e.g. the popup is closed), which is normal for broadcasts.
+export async function sendMessage<M extends ExtensionMessage>(message: M): Promise<ResponseFor<M['type']> | undefined> {
+  try {
+    return await chrome.runtime.sendMessage(toWire(message))
+  } catch (error) {
+    if (String(error?.message).includes('Receiving end does not exist')) return undefined
+    throw error
+  }
+}
+
+// Send to the content script in a tab; rejects with the runtime error if it can't be reached
+export function sendTabMessage<M extends ExtensionMessage>(tabId: number, message: M): Promise<ResponseFor<M['type']>> {
+  return new Promise((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, toWire(message), (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message))
+      } else {
+        resolve(response)
+      }
+    })
+  })
+}
+
+// Register a listener that only ever sees valid messages. Anything malformed, unknown or
+// from another protocol version is answered with { success: false, error } and logged.
+// Handlers may be async: the channel is kept open until they finish, and answered with
+// nothing if they never responded. Returns a function that removes the listener again.
+export function onMessage(handler: MessageHandler): () => void {
+  const listener = (raw: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response?: unknown) => void) => {
+    const { message, error } = parseMessage(raw)
+    if (error) {
+      console.error('❌ Rejected message:', error, raw)
+      sendResponse({ success: false, error })
+      return false
+    }
+
+    let responded = false
+    const respond = (response?: unknown) => {
+      responded = true
+      sendResponse(response)
+    }
+
+    const result = handler(message, sender, respond)
+    if (result instanceof Promise) {
+      result
+        .catch(handlerError => console.error(`Error handling "${message.type}" message:`, handlerError))
+        .finally(() => {
+          if (!responded) sendResponse()
+        })
+      return true
+    }
+    return result === true
+  }
+
+  chrome.runtime.onMessage.addListener(listener)
+  return () => chrome.runtime.onMessage.removeListener(listener)
+}
@@ -0,0 +1,281 @@
+import { AUDIO_ENCODING_OPTIONS } from "~capture/encodings"
+import type { AudioEncoding } from "~capture/encodings"
+import type { CaptionCue, CaptionTrack } from "~captions/types"
+import type { PlaybackAnchor } from "~playback/timeline"
+import type { SiteId, VideoMetadata } from "~sites"
+import type { WordTiming } from "~speech"
+
+// Every message carries this; bump it whenever a message's shape changes incompatibly,
+// so an old content script left running in a tab after an update is rejected cleanly
+export const PROTOCOL_VERSION = 2
+
+// Formats the content script can capture in; WebM segments are sent exactly as MediaRecorder made them
+export type ChunkEncoding = 'FLAC' | 'LINEAR16' | 'WEBM_ORIGINAL'
+
+// --- Popup / extension pages -> background ---
+
+export interface TestMessage { type: 'test' }
+export interface GetRecordingStateMessage { type: 'getRecordingState' }
+// From the popup, captionTrackId picks one of the active tab's caption tracks over speech recognition.
+// Sent on to the content script with tabCapture set when the offscreen document records the audio.
+export interface StartRecordingMessage { type: 'startRecording'; captionTrackId?: string; tabCapture?: boolean }
+// Without a tabId, stops the sending tab's recording (when a content script sends it)
+export interface StopRecordingMessage { type: 'stopRecording'; tabId?: number }
+// Without a tabId, exports the most recent session
+export interface ExportNowMessage { type: 'exportNow'; tabId?: number }
+export interface ExportSessionMessage { type: 'exportSession'; sessionId: string }
+
+// --- Content script or offscreen document -> background ---
+// The offscreen document has no tab of its own, so it names the tab it's recording
+
+export interface ContentScriptReadyMessage { type: 'contentScriptReady' }
+export interface AudioChunkMessage {
+  type: 'audioChunk'
+  // Base64 audio, optionally with a data: URL prefix
+  audioData: string
+  size: number
+  mimeType: string
+  encoding: ChunkEncoding
+  sampleRate: number
+  // Wall-clock time the segment started recording
+  startedAt: number
+  playback?: PlaybackAnchor
+  tabId?: number
+}
+export interface RecordingStartedMessage { type: 'recordingStarted'; playback?: PlaybackAnchor; tabId?: number }
+export interface PlaybackEventMessage { type: 'playbackEvent'; event: string; playback: PlaybackAnchor }
+export interface RecordingStoppedMessage { type: 'recordingStopped'; tabId?: number }
+export interface RecordingErrorMessage { type: 'recordingError'; error: string; tabId?: number }
+
+// --- Background -> content script ---
+
+export interface PingMessage { type: 'ping' }
+export interface RecordingStateMessage { type: 'recordingState'; isRecording: boolean; tabId?: number }
+
+// --- Popup / background -> content script ---
+
+export interface GetCaptionTracksMessage { type: 'getCaptionTracks' }
+export interface LoadCaptionsMessage { type: 'loadCaptions'; trackId: string }
+
+// --- Background -> offscreen document ---
+
+export interface StartTabCaptureMessage {
+  type: 'startTabCapture'
+  tabId: number
+  // From chrome.tabCapture.getMediaStreamId
+  streamId: string
+  // The offscreen document can't read chrome.storage, so settings come along
+  vadEnabled: boolean
+  audioEncoding: AudioEncoding
+  segmentLengthMs: number
+  audioBitrate: number
+}
+export interface StopTabCaptureMessage { type: 'stopTabCapture'; tabId: number }
+// Changed on the options page; applies to every tab being recorded, from the current segment
+export interface SetSegmentLengthMessage { type: 'setSegmentLength'; segmentLengthMs: number }
+
+// --- Background -> popup, extension pages and content script ---
+
+export interface ChunkProcessedMessage {
+  type: 'chunkProcessed'
+  tabId?: number
+  chunkNumber: number
+  language?: string
+  text: string
+  // For highlighting each word in the live captions as it's spoken
+  words?: WordTiming[]
+  confidence: number
+}
+export interface SessionUpdatedMessage { type: 'sessionUpdated'; sessionId: string }
+export interface FileSavedMessage { type: 'fileSaved'; filename: string }
+
+// --- Transcript viewer -> content script ---
+
+export interface SeekToMessage { type: 'seekTo'; time: number }
+
+export type ExtensionMessage =
+  | TestMessage
+  | GetRecordingStateMessage
+  | StartRecordingMessage
+  | StopRecordingMessage
+  | ExportNowMessage
+  | ExportSessionMessage
+  | ContentScriptReadyMessage
+  | AudioChunkMessage
+  | RecordingStartedMessage
+  | PlaybackEventMessage
+  | RecordingStoppedMessage
+  | RecordingErrorMessage
+  | PingMessage
+  | RecordingStateMessage
+  | GetCaptionTracksMessage
+  | LoadCaptionsMessage
+  | StartTabCaptureMessage
+  | StopTabCaptureMessage
+  | SetSegmentLengthMessage
+  | ChunkProcessedMessage
+  | SessionUpdatedMessage
+  | FileSavedMessage
+  | SeekToMessage
+
+export type MessageType = ExtensionMessage['type']
+
+// What gets sent over chrome.runtime / chrome.tabs
+export type WireMessage = ExtensionMessage & { version: number }
+
+// A tab the background is currently transcribing
+export interface ActiveSession {
+  tabId: number
+  sessionId: string
+  videoTitle: string
+  startedAt: number
+  entryCount: number
+}
+
+// Replies for messages that get one; everything else answers { success, error? }
+export interface MessageResponses {
+  test: { success: boolean; message: string }
+  // A content script also says which site it's on and what video, if any, the page has
+  ping: { success: boolean; message: string; site?: SiteId; video?: VideoMetadata }
+  // The background lists its sessions; a content script only reports its own tab
+  getRecordingState: { isRecording: boolean; sessions?: ActiveSession[] }
+  startRecording: { success: boolean; isRecording?: boolean; message?: string; error?: string }
+  getCaptionTracks: { tracks: CaptionTrack[] }
+  loadCaptions: { success: boolean; cues?: CaptionCue[]; error?: string }
+  // How many tabs the offscreen document is still recording, so it can be closed at zero
+  stopTabCapture: { success: boolean; activeCaptures: number }
+}
+
+export type ResponseFor<T extends MessageType> = T extends keyof MessageResponses
+  ? MessageResponses[T]
+  : { success: boolean; error?: string }
+
+// --- Runtime validation ---
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'playback' | 'encoding' | 'audioEncoding' | 'words'
+
+// Field name -> kind; a trailing '?' marks the field optional
+type MessageSchema = Record<string, `${FieldKind}` | `${FieldKind}?`>
+
+const SCHEMAS: Record<MessageType, MessageSchema> = {
+  test: {},
+  getRecordingState: {},
+  startRecording: { captionTrackId: 'string?', tabCapture: 'boolean?' },
+  stopRecording: { tabId: 'number?' },
+  exportNow: { tabId: 'number?' },
+  exportSession: { sessionId: 'string' },
+  contentScriptReady: {},
+  audioChunk: {
+    audioData: 'string',
+    size: 'number',
+    mimeType: 'string',
+    encoding: 'encoding',
+    sampleRate: 'number',
+    startedAt: 'number',
+    playback: 'playback?',
+    tabId: 'number?'
+  },
+  recordingStarted: { playback: 'playback?', tabId: 'number?' },
+  playbackEvent: { event: 'string', playback: 'playback' },
+  recordingStopped: { tabId: 'number?' },
+  recordingError: { error: 'string', tabId: 'number?' },
+  ping: {},
+  recordingState: { isRecording: 'boolean', tabId: 'number?' },
+  getCaptionTracks: {},
+  loadCaptions: { trackId: 'string' },
+  startTabCapture: {
+    tabId: 'number',
+    streamId: 'string',
+    vadEnabled: 'boolean',
+    audioEncoding: 'audioEncoding',
+    segmentLengthMs: 'number',
+    audioBitrate: 'number'
+  },
+  stopTabCapture: { tabId: 'number' },
+  setSegmentLength: { segmentLengthMs: 'number' },
+  chunkProcessed: {
+    tabId: 'number?',
+    chunkNumber: 'number',
+    language: 'string?',
+    text: 'string',
+    words: 'words?',
+    confidence: 'number'
+  },
+  sessionUpdated: { sessionId: 'string' },
+  fileSaved: { filename: 'string' },
+  seekTo: { time: 'number' }
+}
+
+const CHUNK_ENCODINGS: ChunkEncoding[] = ['FLAC', 'LINEAR16', 'WEBM_ORIGINAL']
+
+function isFiniteNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'string': return typeof value === 'string'
+    case 'number': return isFiniteNumber(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'encoding': return CHUNK_ENCODINGS.includes(value as ChunkEncoding)
+    case 'audioEncoding': return AUDIO_ENCODING_OPTIONS.some(option => option.id === value)
+    case 'playback': {
+      const anchor = value as PlaybackAnchor
+      return !!anchor && typeof anchor === 'object'
+        && isFiniteNumber(anchor.wallTime)
+        && isFiniteNumber(anchor.videoTime)
+        && isFiniteNumber(anchor.playbackRate)
+        && typeof anchor.paused === 'boolean'
+    }
+    case 'words':
+      return Array.isArray(value) && value.every((word: WordTiming) => !!word && typeof word === 'object'
+        && typeof word.word === 'string'
+        && isFiniteNumber(word.startTime)
+        && isFiniteNumber(word.endTime))
+  }
+}
+
+// The tab a message names, if its type carries one
+export function getMessageTabId(message: ExtensionMessage): number | undefined {
+  return 'tabId' in message ? message.tabId : undefined
+}
+
+export function isKnownMessageType(type: unknown): type is MessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(SCHEMAS, type)
+}
+
+// Outcome of validating an incoming message - either the message or why it was rejected
+export interface ParseResult {
+  message?: ExtensionMessage
+  error?: string
+}
+
+export function parseMessage(raw: unknown): ParseResult {
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'Message is not an object' }
+  }
+
+  const candidate = raw as Record<string, unknown>
+  if (!isKnownMessageType(candidate.type)) {
+    return { error: `Unknown message type: ${JSON.stringify(candidate.type)}` }
+  }
+  if (candidate.version !== PROTOCOL_VERSION) {
+    return { error: `Message "${candidate.type}" uses protocol version ${candidate.version}, expected ${PROTOCOL_VERSION} - reload the page after updating the extension` }
+  }
+
+  for (const [field, spec] of Object.entries(SCHEMAS[candidate.type])) {
+    const optional = spec.endsWith('?')
+    const kind = spec.replace('?', '') as FieldKind
+    const value = candidate[field]
+
+    if (value === undefined || value === null) {
+      if (optional) continue
+      return { error: `Message "${candidate.type}" is missing required field "${field}"` }
+    }
+    if (!matchesKind(value, kind)) {
+      return { error: `Message "${candidate.type}" has invalid field "${field}": expected ${kind}, got ${JSON.stringify(value)?.slice(0, 50)}` }
+    }
+  }
+
+  return { message: candidate as unknown as ExtensionMessage }
+}
@@ -0,0 +1,181 @@
+import { useStorage } from "@plasmohq/storage/hook"
+
+import {
+  AUDIO_BITRATE_OPTIONS,
+  DEFAULT_SETTINGS,
+  FILENAME_TOKENS,
+  RECOGNITION_MODEL_OPTIONS,
+  SETTING_LIMITS,
+  formatFilename,
+  normalizeSettings,
+  toStoredSettings
+} from "~settings"
+import type { RecognitionModel, Settings, StoredSettings } from "~settings"
+
+const sectionStyle = {
+  marginBottom: '24px',
+  padding: '16px',
+  border: '1px solid #dadce0',
+  borderRadius: '8px'
+}
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '12px',
+  fontSize: '14px'
+}
+
+const hintStyle = {
+  display: 'block',
+  marginTop: '4px',
+  fontSize: '12px',
+  color: '#5f6368'
+}
+
+const inputStyle = {
+  width: '100%',
+  marginTop: '4px',
+  padding: '8px',
+  border: '1px solid #dadce0',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box' as const
+}
+
+// Every change is saved straight away; the background and content scripts pick it up
+// from storage for the next chunk, export or recording
+function OptionsPage() {
+  const [stored, setStored] = useStorage<StoredSettings>("settings")
+  const settings = normalizeSettings(stored)
+
+  const update = (changes: Partial<Settings>) => {
+    setStored({ ...toStoredSettings(settings), ...changes })
+  }
+
+  const reset = () => {
+    if (confirm('Reset recording and output settings to their defaults?')) {
+      setStored(toStoredSettings(DEFAULT_SETTINGS))
+    }
+  }
+
+  // Show the pattern as typed, even while it's empty
+  const filenamePattern = stored?.filenamePattern ?? settings.filenamePattern
+
+  return (
+    <div style={{
+      maxWidth: '640px',
+      margin: '0 auto',
+      padding: '24px',
+      fontFamily: 'system-ui, -apple-system, sans-serif',
+      color: '#202124'
+    }}>
+      <h1 style={{ margin: '0 0 24px', fontSize: '22px', color: '#1a73e8' }}>
+        ⚙️ Auto Transcriber Settings
+      </h1>
+
+      <div style={sectionStyle}>
+        <h2 style={{ margin: '0 0 12px', fontSize: '16px' }}>Recording</h2>
+        <label style={labelStyle}>
+          Longest segment: {settings.segmentLengthSeconds} seconds
+          <input
+            type="range"
+            min={SETTING_LIMITS.segmentLengthSeconds.min}
+            max={SETTING_LIMITS.segmentLengthSeconds.max}
+            value={settings.segmentLengthSeconds}
+            onChange={(e) => update({ segmentLengthSeconds: Number(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+          <span style={hintStyle}>
+            Segments are cut at the first pause after 8 seconds, or at this length when nobody pauses.
+            Shorter segments show up sooner; longer ones give the recognizer more context.
+          </span>
+        </label>
+        <label style={labelStyle}>
+          WebM bitrate:
+          <select
+            value={settings.audioBitrateKbps}
+            onChange={(e) => update({ audioBitrateKbps: Number(e.target.value) })}
+            style={inputStyle}
+          >
+            {AUDIO_BITRATE_OPTIONS.map(kbps => (
+              <option key={kbps} value={kbps}>{kbps} kbps</option>
+            ))}
+          </select>
+          <span style={hintStyle}>Only used with the WebM audio format; FLAC and WAV are always 16 kHz PCM.</span>
+        </label>
+      </div>
+
+      <div style={sectionStyle}>
+        <h2 style={{ margin: '0 0 12px', fontSize: '16px' }}>Google Speech-to-Text</h2>
+        <label style={labelStyle}>
+          Recognition model:
+          <select
+            value={settings.recognitionModel}
+            onChange={(e) => update({ recognitionModel: e.target.value as RecognitionModel })}
+            style={inputStyle}
+          >
+            {RECOGNITION_MODEL_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ ...labelStyle, cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={settings.useEnhanced}
+            onChange={(e) => update({ useEnhanced: e.target.checked })}
+          />{' '}
+          Use the enhanced model
+          <span style={hintStyle}>More accurate for the video and phone call models, and billed at a higher rate.</span>
+        </label>
+      </div>
+
+      <div style={sectionStyle}>
+        <h2 style={{ margin: '0 0 12px', fontSize: '16px' }}>Output</h2>
+        <label style={labelStyle}>
+          Snapshot every
+          <input
+            type="number"
+            min={SETTING_LIMITS.snapshotInterval.min}
+            max={SETTING_LIMITS.snapshotInterval.max}
+            value={settings.snapshotInterval}
+            onChange={(e) => update({ snapshotInterval: Number(e.target.value) })}
+            style={{ ...inputStyle, width: '80px', margin: '0 8px' }}
+          />
+          entries
+          <span style={hintStyle}>When "Also download snapshots while recording" is ticked in the popup.</span>
+        </label>
+        <label style={labelStyle}>
+          File name:
+          <input
+            type="text"
+            value={filenamePattern}
+            onChange={(e) => setStored({ ...toStoredSettings(settings), filenamePattern: e.target.value })}
+            style={inputStyle}
+          />
+          <span style={hintStyle}>
+            {FILENAME_TOKENS.map(({ token, description }) => `${token} ${description}`).join(' · ')}
+            <br />
+            Example: {formatFilename(settings.filenamePattern, { title: 'My video', date: new Date() })}.txt
+          </span>
+        </label>
+      </div>
+
+      <button
+        onClick={reset}
+        style={{
+          background: '#f8f9fa',
+          border: '1px solid #dadce0',
+          padding: '8px 16px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '14px'
+        }}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  )
+}
+
+export default OptionsPage
@@ -0,0 +1,199 @@
+import type { WordTiming } from "~speech"
+
+import type { CaptionSettings } from "./settings"
+
+const LINE_HEIGHT = 1.4
+const PADDING_PX = 8
+// Older text scrolls out of view anyway, no need to keep much of it around
+const MAX_SEGMENTS = 20
+// Corner area left to the browser's native resize handle instead of starting a drag
+const RESIZE_HANDLE_PX = 16
+const HIGHLIGHT_COLOR = '#ffd54f'
+
+interface CaptionSegment {
+  text: string
+  words?: WordTiming[]
+}
+
+// Live captions drawn over the video player. Dragged by its body, resized from the
+// bottom-right corner, and always shows the newest lineCount lines of text. Text with word
+// timings is highlighted word by word as the video plays over it, e.g. after seeking back.
+export class CaptionOverlay {
+  private root: HTMLDivElement | null = null
+  private textElement: HTMLDivElement | null = null
+  private segments: CaptionSegment[] = []
+  private wordElements: { element: HTMLSpanElement; word: WordTiming }[] = []
+  private video: HTMLVideoElement | null = null
+  private highlightFrame: number | null = null
+  private dragOffset: { x: number; y: number } | null = null
+
+  constructor(private settings: CaptionSettings) {}
+
+  get isShown(): boolean {
+    return !!this.root
+  }
+
+  show(container: HTMLElement, video?: HTMLVideoElement) {
+    if (this.root) return
+
+    this.video = video || null
+
+    this.root = document.createElement('div')
+    this.root.id = 'transcriber-caption-overlay'
+    this.root.style.cssText = `
+      position: absolute;
+      left: 10%;
+      bottom: 70px;
+      width: 80%;
+      min-width: 160px;
+      min-height: 24px;
+      padding: ${PADDING_PX}px 12px;
+      box-sizing: border-box;
+      border-radius: 6px;
+      color: white;
+      font-family: system-ui, -apple-system, sans-serif;
+      text-align: center;
+      text-shadow: 0 1px 2px rgba(0,0,0,0.8);
+      overflow: hidden;
+      resize: both;
+      cursor: move;
+      user-select: none;
+      z-index: 60;
+      display: flex;
+      flex-direction: column;
+      justify-content: flex-end;
+    `
+
+    this.textElement = document.createElement('div')
+    this.textElement.style.cssText = 'white-space: pre-wrap; overflow: hidden;'
+    this.root.appendChild(this.textElement)
+
+    this.root.addEventListener('pointerdown', this.handlePointerDown)
+    // Keep clicks from reaching the player underneath, which would toggle play/pause
+    this.root.addEventListener('click', (event) => event.stopPropagation())
+
+    // The overlay is positioned against the player, so the player has to be its containing block
+    if (getComputedStyle(container).position === 'static') container.style.position = 'relative'
+    container.appendChild(this.root)
+
+    this.applySettings(this.settings)
+    this.render()
+    this.highlightFrame = requestAnimationFrame(this.highlightWords)
+  }
+
+  hide() {
+    if (!this.root) return
+
+    this.root.removeEventListener('pointerdown', this.handlePointerDown)
+    this.stopDragging()
+    if (this.highlightFrame !== null) cancelAnimationFrame(this.highlightFrame)
+    this.highlightFrame = null
+    this.video = null
+    this.wordElements = []
+    this.root.remove()
+    this.root = null
+    this.textElement = null
+  }
+
+  clear() {
+    this.segments = []
+    this.render()
+  }
+
+  addText(text: string, words?: WordTiming[]) {
+    const trimmed = text.trim()
+    if (!trimmed) return
+
+    this.segments.push({ text: trimmed, words: words?.length ? words : undefined })
+    if (this.segments.length > MAX_SEGMENTS) this.segments.shift()
+    this.render()
+  }
+
+  applySettings(settings: CaptionSettings) {
+    this.settings = settings
+    if (!this.root) return
+
+    const { fontSize, backgroundOpacity, lineCount } = settings
+    const textHeight = Math.round(fontSize * LINE_HEIGHT * lineCount)
+
+    this.root.style.background = `rgba(0, 0, 0, ${backgroundOpacity})`
+    this.root.style.fontSize = `${fontSize}px`
+    this.root.style.lineHeight = `${LINE_HEIGHT}`
+    this.root.style.height = `${textHeight + PADDING_PX * 2}px`
+    this.textElement.style.maxHeight = `${textHeight}px`
+  }
+
+  private render() {
+    if (!this.textElement) return
+
+    this.textElement.textContent = ''
+    this.wordElements = []
+    this.segments.forEach((segment, index) => {
+      if (index > 0) this.textElement.append(' ')
+      if (!segment.words) {
+        this.textElement.append(segment.text)
+        return
+      }
+
+      segment.words.forEach((word, wordIndex) => {
+        if (wordIndex > 0) this.textElement.append(' ')
+        const element = document.createElement('span')
+        element.textContent = word.word
+        this.textElement.appendChild(element)
+        this.wordElements.push({ element, word })
+      })
+    })
+
+    // Bottom-aligned text overflows at the top, so the newest lines are the visible ones
+    this.textElement.scrollTop = this.textElement.scrollHeight
+  }
+
+  // Runs every frame while shown; timeupdate fires too rarely to follow individual words
+  private highlightWords = () => {
+    const time = this.video?.currentTime
+    for (const { element, word } of this.wordElements) {
+      const spoken = time !== undefined && time >= word.startTime && time < word.endTime
+      element.style.color = spoken ? HIGHLIGHT_COLOR : ''
+    }
+    this.highlightFrame = requestAnimationFrame(this.highlightWords)
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (!this.root || event.button !== 0) return
+
+    const rect = this.root.getBoundingClientRect()
+    if (event.clientX > rect.right - RESIZE_HANDLE_PX && event.clientY > rect.bottom - RESIZE_HANDLE_PX) return
+
+    event.preventDefault()
+    event.stopPropagation()
+    this.dragOffset = { x: event.clientX - rect.left, y: event.clientY - rect.top }
+    window.addEventListener('pointermove', this.handlePointerMove)
+    window.addEventListener('pointerup', this.handlePointerUp)
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.root || !this.dragOffset) return
+
+    const parent = this.root.parentElement.getBoundingClientRect()
+    const width = this.root.offsetWidth
+    const height = this.root.offsetHeight
+
+    // Keep the overlay inside the player
+    const left = Math.min(Math.max(0, event.clientX - parent.left - this.dragOffset.x), parent.width - width)
+    const top = Math.min(Math.max(0, event.clientY - parent.top - this.dragOffset.y), parent.height - height)
+
+    this.root.style.left = `${left}px`
+    this.root.style.top = `${top}px`
+    this.root.style.bottom = 'auto'
+  }
+
+  private handlePointerUp = () => {
+    this.stopDragging()
+  }
+
+  private stopDragging() {
+    this.dragOffset = null
+    window.removeEventListener('pointermove', this.handlePointerMove)
+    window.removeEventListener('pointerup', this.handlePointerUp)
+  }
+}
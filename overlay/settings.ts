@@ -0,0 +1,58 @@
+import { Storage } from "@plasmohq/storage"
+
+const storage = new Storage()
+
+export interface CaptionSettings {
+  enabled: boolean
+  // Caption text size in px
+  fontSize: number
+  // 0 (transparent) to 1 (solid black)
+  backgroundOpacity: number
+  // How many lines of text stay visible at once
+  lineCount: number
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  enabled: true,
+  fontSize: 20,
+  backgroundOpacity: 0.6,
+  lineCount: 3
+}
+
+// The ranges the popup's sliders offer
+export const CAPTION_SETTING_LIMITS = {
+  fontSize: { min: 12, max: 40 },
+  backgroundOpacity: { min: 0, max: 1 },
+  lineCount: { min: 1, max: 6 }
+}
+
+// Where each setting is stored
+const STORAGE_KEYS: Record<keyof CaptionSettings, string> = {
+  enabled: "caption_overlay_enabled",
+  fontSize: "caption_font_size",
+  backgroundOpacity: "caption_background_opacity",
+  lineCount: "caption_line_count"
+}
+
+// Storage keys, so the content script can watch them and restyle the overlay live
+export const CAPTION_SETTING_KEYS = Object.values(STORAGE_KEYS)
+
+// A stored number within its slider's range, or the default when it's missing or not a number
+async function getNumber(key: keyof typeof CAPTION_SETTING_LIMITS): Promise<number> {
+  const value = Number(await storage.get<number | string>(STORAGE_KEYS[key]))
+  if (!Number.isFinite(value)) return DEFAULT_CAPTION_SETTINGS[key]
+
+  const { min, max } = CAPTION_SETTING_LIMITS[key]
+  return Math.min(Math.max(value, min), max)
+}
+
+export async function getCaptionSettings(): Promise<CaptionSettings> {
+  const enabled = await storage.get<boolean>(STORAGE_KEYS.enabled)
+
+  return {
+    enabled: typeof enabled === 'boolean' ? enabled : DEFAULT_CAPTION_SETTINGS.enabled,
+    fontSize: await getNumber('fontSize'),
+    backgroundOpacity: await getNumber('backgroundOpacity'),
+    lineCount: Math.round(await getNumber('lineCount'))
+  }
+}
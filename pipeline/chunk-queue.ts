@@ -0,0 +1,160 @@
+import { isRetryableError } from "~speech"
+
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 2
+
+const MAX_ATTEMPTS = 5
+const BASE_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30000
+
+export interface ChunkQueueOptions<T> {
+  // Called once per sequence number, strictly in order; result is null when the chunk failed for good
+  deliver: (sequence: number, result: T | null) => Promise<void>
+  concurrency: number
+}
+
+interface QueuedTask<T> {
+  sequence: number
+  // Recognize one chunk. Retryable failures (see isRetryableError) are retried with backoff.
+  task: () => Promise<T>
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Resolves immediately when online, otherwise on the next 'online' event
+function waitUntilOnline(): Promise<void> {
+  if (navigator.onLine) return Promise.resolve()
+
+  console.log('📴 Offline - holding chunks until the connection is back')
+  return new Promise(resolve => {
+    globalThis.addEventListener('online', () => {
+      console.log('📶 Back online - resuming chunk processing')
+      resolve()
+    }, { once: true })
+  })
+}
+
+// Runs chunk recognition with a concurrency limit, retrying transient failures, and hands
+// results on in sequence order no matter which request finishes first
+export class ChunkQueue<T> {
+  private pending: QueuedTask<T>[] = []
+  private completed = new Map<number, T | null>()
+  private running = 0
+  private nextToDeliver = 1
+  private delivering: Promise<void> = Promise.resolve()
+  private idleWaiters: (() => void)[] = []
+  // Bumped by reset, so requests still in flight from before it are discarded
+  private generation = 0
+
+  constructor(private options: ChunkQueueOptions<T>) {}
+
+  get isIdle(): boolean {
+    return this.pending.length === 0 && this.running === 0 && this.completed.size === 0
+  }
+
+  setConcurrency(concurrency: number) {
+    this.options.concurrency = Math.max(1, concurrency)
+    this.startNext()
+  }
+
+  // Forget everything queued; the next delivered chunk will be nextSequence
+  reset(nextSequence = 1) {
+    this.pending = []
+    this.completed.clear()
+    this.generation++
+    this.nextToDeliver = nextSequence
+    this.notifyIdle()
+  }
+
+  push(sequence: number, task: () => Promise<T>) {
+    this.pending.push({ sequence, task })
+    this.startNext()
+  }
+
+  // Resolves once every queued chunk has been delivered
+  onIdle(): Promise<void> {
+    if (this.isIdle) return Promise.resolve()
+    return new Promise(resolve => this.idleWaiters.push(resolve))
+  }
+
+  private startNext() {
+    while (this.running < this.options.concurrency && this.pending.length > 0) {
+      this.running++
+      this.run(this.pending.shift())
+    }
+  }
+
+  private async run({ sequence, task }: QueuedTask<T>) {
+    const generation = this.generation
+    const result = await this.runWithRetry(sequence, task)
+    this.running--
+    if (generation === this.generation) this.completed.set(sequence, result)
+    this.startNext()
+    this.flush()
+  }
+
+  private async runWithRetry(sequence: number, task: () => Promise<T>): Promise<T | null> {
+    let attempt = 0
+    while (true) {
+      await waitUntilOnline()
+      attempt++
+
+      try {
+        return await task()
+      } catch (error) {
+        // Failures caused by dropping offline don't count against the chunk
+        if (!navigator.onLine) {
+          attempt--
+          continue
+        }
+
+        if (!isRetryableError(error) || attempt >= MAX_ATTEMPTS) {
+          console.error(`❌ Chunk ${sequence} failed after ${attempt} attempt(s):`, error)
+          return null
+        }
+
+        // Exponential backoff with jitter, so parallel retries don't hit the API in lockstep
+        const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1))
+        const wait = backoff / 2 + Math.random() * backoff / 2
+        console.warn(`⚠️ Chunk ${sequence} attempt ${attempt} failed, retrying in ${Math.round(wait)}ms:`, error)
+        await delay(wait)
+      }
+    }
+  }
+
+  // Deliver completed results in order, one at a time
+  private flush() {
+    this.delivering = this.delivering.then(async () => {
+      while (this.completed.has(this.nextToDeliver)) {
+        const sequence = this.nextToDeliver
+        const result = this.completed.get(sequence)
+        this.completed.delete(sequence)
+        this.nextToDeliver++
+
+        try {
+          await this.options.deliver(sequence, result)
+        } catch (error) {
+          console.error(`Failed to handle result of chunk ${sequence}:`, error)
+        }
+      }
+
+      // Results queued behind a missing sequence number (e.g. lost in a crash) would never be
+      // delivered, so once nothing else is running skip ahead to the oldest one we have
+      if (this.running === 0 && this.pending.length === 0 && this.completed.size > 0) {
+        this.nextToDeliver = Math.min(...this.completed.keys())
+        this.flush()
+        return
+      }
+
+      this.notifyIdle()
+    })
+  }
+
+  private notifyIdle() {
+    if (!this.isIdle) return
+    const waiters = this.idleWaiters
+    this.idleWaiters = []
+    waiters.forEach(resolve => resolve())
+  }
+}
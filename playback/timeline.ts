@@ -0,0 +1,69 @@
+// Snapshot of the <video> element's state at a moment in wall-clock time
+export interface PlaybackAnchor {
+  wallTime: number
+  videoTime: number
+  playbackRate: number
+  paused: boolean
+}
+
+// Maps wall-clock times (Date.now()) onto the video's own playback position, using the
+// play/pause/seek/rate-change snapshots the content script reports while recording
+export class PlaybackTimeline {
+  private anchors: PlaybackAnchor[] = []
+
+  get isEmpty(): boolean {
+    return this.anchors.length === 0
+  }
+
+  reset() {
+    this.anchors = []
+  }
+
+  // Copy of the anchors, for persisting the timeline alongside its session
+  getAnchors(): PlaybackAnchor[] {
+    return [...this.anchors]
+  }
+
+  addAnchor(anchor: PlaybackAnchor) {
+    // Messages can arrive slightly out of order, keep anchors sorted by wall time
+    const index = this.anchors.findIndex(existing => existing.wallTime > anchor.wallTime)
+    if (index === -1) {
+      this.anchors.push(anchor)
+    } else {
+      this.anchors.splice(index, 0, anchor)
+    }
+  }
+
+  // Earliest and latest video positions played up to the given wall-clock time, or null without any anchors
+  getPlayedRange(endWallTime: number): { start: number; end: number } | null {
+    if (this.anchors.length === 0) return null
+
+    let start = Infinity
+    let end = 0
+    this.anchors.forEach((anchor, index) => {
+      const until = Math.min(this.anchors[index + 1]?.wallTime ?? endWallTime, endWallTime)
+      const reached = anchor.paused
+        ? anchor.videoTime
+        : anchor.videoTime + Math.max(0, until - anchor.wallTime) / 1000 * anchor.playbackRate
+      start = Math.min(start, anchor.videoTime)
+      end = Math.max(end, reached)
+    })
+    return { start, end }
+  }
+
+  // Video position in seconds at the given wall-clock time, or null without any anchors
+  toVideoTime(wallTime: number): number | null {
+    if (this.anchors.length === 0) return null
+
+    let anchor = this.anchors[0]
+    for (const candidate of this.anchors) {
+      if (candidate.wallTime > wallTime) break
+      anchor = candidate
+    }
+
+    if (anchor.paused) return anchor.videoTime
+
+    const elapsed = (wallTime - anchor.wallTime) / 1000
+    return Math.max(0, anchor.videoTime + elapsed * anchor.playbackRate)
+  }
+}
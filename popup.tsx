@@ -1,15 +1,88 @@
 import { useState, useEffect } from "react"
 import { useStorage } from "@plasmohq/storage/hook"
 
+import { DEFAULT_TRANSCRIPT_SOURCE, TRANSCRIPT_SOURCE_OPTIONS } from "~captions"
+import type { CaptionTrack, TranscriptSource } from "~captions"
+import { AUDIO_ENCODING_OPTIONS } from "~capture/encodings"
+import type { AudioEncoding } from "~capture/encodings"
+import { CAPTION_SETTING_LIMITS, DEFAULT_CAPTION_SETTINGS } from "~overlay/settings"
+import { onMessage, sendMessage, sendTabMessage } from "~messaging"
+import type { ActiveSession, ExtensionMessage } from "~messaging"
+import { DEFAULT_MAX_CONCURRENT_REQUESTS } from "~pipeline/chunk-queue"
+import { listUnfinishedSessions, saveSession } from "~sessions/store"
+import type { SessionSummary } from "~sessions/store"
+import { normalizeSettings, toStoredSettings } from "~settings"
+import type { Settings, StoredSettings } from "~settings"
+import { DEFAULT_TRANSCRIPT_FORMAT, TRANSCRIPT_FORMAT_OPTIONS } from "~formats"
+import type { TranscriptFormat } from "~formats"
+import {
+  DEFAULT_CONFIDENCE_SETTINGS,
+  DEFAULT_DIARIZATION_SETTINGS,
+  DEFAULT_PRIMARY_LANGUAGE,
+  DEFAULT_SPEECH_PROVIDER,
+  DEFAULT_WHISPER_ENDPOINT,
+  DEFAULT_WORD_TIMESTAMPS_ENABLED,
+  MAX_ALTERNATIVE_LANGUAGES,
+  MAX_ALTERNATIVES,
+  MAX_PHRASE_BOOST,
+  MAX_SPEAKER_COUNT,
+  SPEECH_PROVIDER_OPTIONS,
+  SUPPORTED_LANGUAGES,
+  createPhraseList,
+  getLanguageName
+} from "~speech"
+import type { PhraseList, SpeechProviderId } from "~speech"
+import {
+  DEFAULT_TRANSLATION_OUTPUT,
+  DEFAULT_TRANSLATION_PROVIDER,
+  TRANSLATION_OUTPUT_OPTIONS,
+  TRANSLATION_PROVIDER_OPTIONS
+} from "~translation"
+import type { TranslationOutput, TranslationProviderId } from "~translation"
+
 function IndexPopup() {
   const [apiKey, setApiKey] = useStorage("google_api_key", "")
+  const [speechProvider, setSpeechProvider] = useStorage<SpeechProviderId>("speech_provider", DEFAULT_SPEECH_PROVIDER)
+  const [maxConcurrentRequests, setMaxConcurrentRequests] = useStorage("max_concurrent_requests", DEFAULT_MAX_CONCURRENT_REQUESTS)
+  const [whisperEndpoint, setWhisperEndpoint] = useStorage("whisper_endpoint", DEFAULT_WHISPER_ENDPOINT)
+  const [primaryLanguage, setPrimaryLanguage] = useStorage("primary_language", DEFAULT_PRIMARY_LANGUAGE)
+  const [alternativeLanguages, setAlternativeLanguages] = useStorage<string[]>("alternative_languages", [])
+  const [confidenceThreshold, setConfidenceThreshold] = useStorage("low_confidence_threshold", DEFAULT_CONFIDENCE_SETTINGS.threshold)
+  const [maxAlternatives, setMaxAlternatives] = useStorage("max_alternatives", DEFAULT_CONFIDENCE_SETTINGS.alternatives)
+  const [phraseLists, setPhraseLists] = useStorage<PhraseList[]>("phrase_lists", [])
+  const [wordTimestamps, setWordTimestamps] = useStorage("word_timestamps_enabled", DEFAULT_WORD_TIMESTAMPS_ENABLED)
+  const [diarizationEnabled, setDiarizationEnabled] = useStorage("diarization_enabled", DEFAULT_DIARIZATION_SETTINGS.enabled)
+  const [minSpeakers, setMinSpeakers] = useStorage("min_speaker_count", DEFAULT_DIARIZATION_SETTINGS.minSpeakers)
+  const [maxSpeakers, setMaxSpeakers] = useStorage("max_speaker_count", DEFAULT_DIARIZATION_SETTINGS.maxSpeakers)
+  const [transcriptSource, setTranscriptSource] = useStorage<TranscriptSource>("transcript_source", DEFAULT_TRANSCRIPT_SOURCE)
+  const [captionsEnabled, setCaptionsEnabled] = useStorage("caption_overlay_enabled", DEFAULT_CAPTION_SETTINGS.enabled)
+  const [captionFontSize, setCaptionFontSize] = useStorage("caption_font_size", DEFAULT_CAPTION_SETTINGS.fontSize)
+  const [captionOpacity, setCaptionOpacity] = useStorage("caption_background_opacity", DEFAULT_CAPTION_SETTINGS.backgroundOpacity)
+  const [captionLines, setCaptionLines] = useStorage("caption_line_count", DEFAULT_CAPTION_SETTINGS.lineCount)
+  const [outputFormat, setOutputFormat] = useStorage<TranscriptFormat>("output_format", DEFAULT_TRANSCRIPT_FORMAT)
+  const [translationProvider, setTranslationProvider] = useStorage<TranslationProviderId>("translation_provider", DEFAULT_TRANSLATION_PROVIDER)
+  const [translationLanguages, setTranslationLanguages] = useStorage<string[]>("translation_languages", [])
+  const [translationOutput, setTranslationOutput] = useStorage<TranslationOutput>("translation_output", DEFAULT_TRANSLATION_OUTPUT)
+  // Shared with the options page, which edits the rest of it
+  const [storedSettings, setStoredSettings] = useStorage<StoredSettings>("settings")
+  const settings = normalizeSettings(storedSettings)
   const [status, setStatus] = useState("Ready")
-  const [isRecording, setIsRecording] = useState(false)
-  const [recordingDuration, setRecordingDuration] = useState(0)
-  const [chunksProcessed, setChunksProcessed] = useState(0)
+  const [activeSessions, setActiveSessions] = useState<ActiveSession[]>([])
+  const [activeTabId, setActiveTabId] = useState<number | null>(null)
+  const [now, setNow] = useState(Date.now())
+  // Caption tracks of the video in the active tab; an empty id means "follow the transcript source"
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([])
+  const [captionTrackId, setCaptionTrackId] = useState("")
+  // Channel of the video in the active tab, for attaching phrase lists to it
+  const [currentChannel, setCurrentChannel] = useState("")
   const [lastActivity, setLastActivity] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [recordingMessage, setRecordingMessage] = useState("")
+  const [interruptedSessions, setInterruptedSessions] = useState<SessionSummary[]>([])
+
+  // The popup's buttons act on the tab it was opened over; other recordings are listed below
+  const currentSession = activeSessions.find(session => session.tabId === activeTabId) || null
+  const isRecording = !!currentSession
 
   const saveApiKey = () => {
     if (apiKey.trim()) {
@@ -56,55 +129,84 @@ function IndexPopup() {
 
   // Listen for messages from background script
   useEffect(() => {
-    const handleMessage = (message: any) => {
+    const handleMessage = (message: ExtensionMessage) => {
       console.log('Popup received message:', message)
       
       if (message.type === 'recordingState') {
-        console.log('Setting recording state to:', message.isRecording)
-        setIsRecording(message.isRecording)
+        console.log(`Tab ${message.tabId} recording state:`, message.isRecording)
+        checkRecordingState()
         if (!message.isRecording) {
-          setRecordingDuration(0)
-          setChunksProcessed(0)
           setLastActivity("Recording stopped")
           setRecordingMessage("")
         }
       } else if (message.type === 'chunkProcessed') {
-        setChunksProcessed(prev => prev + 1)
-        setLastActivity(`Processed chunk ${message.chunkNumber} (${message.language})`)
+        checkRecordingState()
+        setLastActivity(`Processed chunk ${message.chunkNumber} (${getLanguageName(message.language)})`)
+      } else if (message.type === 'sessionUpdated') {
+        loadInterruptedSessions()
       } else if (message.type === 'fileSaved') {
         setLastActivity(`File saved: ${message.filename}`)
       } else if (message.type === 'recordingError') {
         setLastActivity(`Error: ${message.error}`)
-        setIsRecording(false)
+        checkRecordingState()
         setRecordingMessage("")
       }
     }
 
     // Listen for messages from background script
-    chrome.runtime.onMessage.addListener(handleMessage)
+    const removeListener = onMessage(handleMessage)
     
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      setActiveTabId(tab?.id ?? null)
+      if (tab?.id !== undefined) {
+        loadCaptionTracks(tab.id)
+        loadCurrentChannel(tab.id)
+      }
+    })
+
     // Get current recording state
     checkRecordingState()
+    loadInterruptedSessions()
 
     return () => {
-      chrome.runtime.onMessage.removeListener(handleMessage)
+      removeListener()
     }
   }, [])
 
-  // Update recording duration timer
+  // Tick recording durations while anything is recording
   useEffect(() => {
     let interval: NodeJS.Timeout
-    if (isRecording) {
+    if (activeSessions.length > 0) {
       interval = setInterval(() => {
-        setRecordingDuration(prev => prev + 1)
+        setNow(Date.now())
       }, 1000)
     }
     return () => {
       if (interval) clearInterval(interval)
     }
-  }, [isRecording])
+  }, [activeSessions.length > 0])
+
+  const toggleAlternativeLanguage = (code: string) => {
+    if (alternativeLanguages.includes(code)) {
+      setAlternativeLanguages(alternativeLanguages.filter(c => c !== code))
+    } else if (alternativeLanguages.length < MAX_ALTERNATIVE_LANGUAGES) {
+      setAlternativeLanguages([...alternativeLanguages, code])
+    } else {
+      setStatus(`Up to ${MAX_ALTERNATIVE_LANGUAGES} alternative languages`)
+      setTimeout(() => setStatus("Ready"), 2000)
+    }
+  }
+
+  const toggleTranslationLanguage = (code: string) => {
+    if (translationLanguages.includes(code)) {
+      setTranslationLanguages(translationLanguages.filter(c => c !== code))
+    } else {
+      setTranslationLanguages([...translationLanguages, code])
+    }
+  }
 
   const formatDuration = (seconds: number) => {
+    seconds = Math.max(0, Math.floor(seconds))
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
     return `${mins}:${secs.toString().padStart(2, '0')}`
@@ -114,14 +216,14 @@ function IndexPopup() {
     setIsLoading(true)
     console.log('Toggle recording clicked, current state:', isRecording)
     
-    if (isRecording) {
+    if (currentSession) {
       console.log('Sending stopRecording message')
-      chrome.runtime.sendMessage({ type: 'stopRecording' })
+      stopSession(currentSession)
     } else {
       console.log('Sending startRecording message')
       try {
-        const response = await chrome.runtime.sendMessage({ type: 'startRecording' })
-        if (response.success && response.message) {
+        const response = await sendMessage({ type: 'startRecording', captionTrackId: captionTrackId || undefined })
+        if (response?.success && response.message) {
           setRecordingMessage(response.message)
         }
       } catch (error) {
@@ -139,20 +241,83 @@ function IndexPopup() {
   const checkRecordingState = async () => {
     try {
       console.log('Checking recording state...')
-      const response = await chrome.runtime.sendMessage({ type: 'getRecordingState' })
+      const response = await sendMessage({ type: 'getRecordingState' })
       console.log('Received recording state:', response)
-      setIsRecording(response.isRecording)
+      setActiveSessions(response?.sessions || [])
+      setNow(Date.now())
     } catch (error) {
       console.error('Failed to get recording state:', error)
     }
   }
 
+  // Pages without a content script (or without captions) just have no tracks
+  const loadCaptionTracks = async (tabId: number) => {
+    try {
+      const response = await sendTabMessage(tabId, { type: 'getCaptionTracks' })
+      setCaptionTracks(response?.tracks || [])
+    } catch {
+      setCaptionTracks([])
+    }
+  }
+
+  const loadCurrentChannel = async (tabId: number) => {
+    try {
+      const response = await sendTabMessage(tabId, { type: 'ping' })
+      setCurrentChannel(response?.video?.channel || "")
+    } catch {
+      setCurrentChannel("")
+    }
+  }
+
+  const updatePhraseList = (id: string, changes: Partial<PhraseList>) => {
+    setPhraseLists(phraseLists.map(list => list.id === id ? { ...list, ...changes } : list))
+  }
+
+  const removePhraseList = (list: PhraseList) => {
+    if (list.phrases.some(phrase => phrase.trim()) && !confirm(`Delete the phrase list "${list.name}"?`)) return
+    setPhraseLists(phraseLists.filter(l => l.id !== list.id))
+  }
+
+  const updateSettings = (changes: Partial<Settings>) => {
+    setStoredSettings({ ...toStoredSettings(settings), ...changes })
+  }
+
+  const stopSession = (session: ActiveSession) => {
+    sendMessage({ type: 'stopRecording', tabId: session.tabId })
+  }
+
+  // Sessions cut short by a crash, waiting to be exported or dismissed
+  const loadInterruptedSessions = async () => {
+    try {
+      const unfinished = await listUnfinishedSessions()
+      setInterruptedSessions(unfinished.filter(session => session.interrupted))
+    } catch (error) {
+      console.error('Failed to load unfinished sessions:', error)
+    }
+  }
+
+  const exportSession = (session: SessionSummary) => {
+    sendMessage({ type: 'exportSession', sessionId: session.id })
+    setInterruptedSessions(sessions => sessions.filter(s => s.id !== session.id))
+  }
+
+  const dismissSession = async (session: SessionSummary) => {
+    // Still kept in the transcript viewer, just no longer offered here
+    await saveSession({ ...session, endedAt: session.lastChunkTime })
+    setInterruptedSessions(sessions => sessions.filter(s => s.id !== session.id))
+  }
+
+  const exportNow = () => {
+    sendMessage({ type: 'exportNow', tabId: activeTabId ?? undefined })
+    setLastActivity("Exporting transcript...")
+  }
+
   const testBackgroundConnection = async () => {
     try {
       console.log('Testing background connection...')
-      const response = await chrome.runtime.sendMessage({ type: 'test' })
+      const response = await sendMessage({ type: 'test' })
       console.log('Test response:', response)
-      setLastActivity(`Test: ${response.message}`)
+      setLastActivity(`Test: ${response?.message}`)
     } catch (error) {
       console.error('Failed to test background connection:', error)
       setLastActivity('Test failed: Background not responding')
@@ -173,6 +338,287 @@ function IndexPopup() {
         YouTube Auto Transcriber
       </h3>
       
+      {interruptedSessions.map(session => (
+        <div key={session.id} style={{
+          marginBottom: '15px',
+          padding: '12px',
+          background: '#fef7e0',
+          borderRadius: '4px',
+          border: '1px solid #fbbc04',
+          fontSize: '13px'
+        }}>
+          <div style={{ fontWeight: '500', marginBottom: '4px' }}>
+            ⚠️ Unfinished transcript recovered
+          </div>
+          <div style={{ color: '#5f6368', marginBottom: '8px' }}>
+            {session.videoTitle} · {new Date(session.startedAt).toLocaleString()} · {session.entryCount} entries
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={() => exportSession(session)}
+              style={{
+                background: '#1a73e8',
+                color: 'white',
+                border: 'none',
+                padding: '6px 12px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px',
+                flex: 1
+              }}
+            >
+              Export
+            </button>
+            <button
+              onClick={() => dismissSession(session)}
+              style={{
+                background: 'white',
+                color: '#5f6368',
+                border: '1px solid #dadce0',
+                padding: '6px 12px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px',
+                flex: 1
+              }}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+      
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="speech-provider" style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Speech Recognition Provider:
+        </label>
+        <select
+          id="speech-provider"
+          value={speechProvider}
+          onChange={(e) => setSpeechProvider(e.target.value as SpeechProviderId)}
+          style={{
+            width: '100%',
+            padding: '10px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {SPEECH_PROVIDER_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <label style={{ display: 'block', marginTop: '8px', fontSize: '13px' }}>
+          Parallel requests:{' '}
+          <select
+            value={maxConcurrentRequests}
+            onChange={(e) => setMaxConcurrentRequests(Number(e.target.value))}
+          >
+            {[1, 2, 3, 4].map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+        {speechProvider !== 'mock' && (
+          <label style={{ display: 'block', marginTop: '8px', fontSize: '13px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={wordTimestamps}
+              onChange={(e) => setWordTimestamps(e.target.checked)}
+            />{' '}
+            Word-level timestamps (exact subtitle timing, word-by-word captions)
+          </label>
+        )}
+        <label style={{ display: 'block', marginTop: '8px', fontSize: '13px' }}>
+          Flag text below {Math.round(confidenceThreshold * 100)}% confidence
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={confidenceThreshold}
+            onChange={(e) => setConfidenceThreshold(Number(e.target.value))}
+            style={{ width: '100%' }}
+          />
+        </label>
+        {speechProvider === 'google-v1' && (
+          <>
+            <label style={{ display: 'block', marginTop: '8px', fontSize: '13px' }}>
+              Alternatives to keep for review:{' '}
+              <select
+                value={maxAlternatives}
+                onChange={(e) => setMaxAlternatives(Number(e.target.value))}
+              >
+                {Array.from({ length: MAX_ALTERNATIVES + 1 }, (_, i) => i).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: 'block', marginTop: '8px', fontSize: '13px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={diarizationEnabled}
+                onChange={(e) => setDiarizationEnabled(e.target.checked)}
+              />{' '}
+              Label speakers
+            </label>
+            {diarizationEnabled && (
+              <div style={{ marginTop: '4px', fontSize: '13px' }}>
+                Between{' '}
+                <select
+                  value={minSpeakers}
+                  onChange={(e) => setMinSpeakers(Number(e.target.value))}
+                >
+                  {Array.from({ length: maxSpeakers }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+                {' '}and{' '}
+                <select
+                  value={maxSpeakers}
+                  onChange={(e) => setMaxSpeakers(Number(e.target.value))}
+                >
+                  {Array.from({ length: MAX_SPEAKER_COUNT - minSpeakers + 1 }, (_, i) => i + minSpeakers).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+                {' '}speakers
+                <div style={{ marginTop: '4px', fontSize: '12px', color: '#5f6368' }}>
+                  Speakers are numbered separately in each chunk of audio.
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="primary-language" style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Primary Language:
+        </label>
+        <select
+          id="primary-language"
+          value={primaryLanguage}
+          onChange={(e) => setPrimaryLanguage(e.target.value)}
+          style={{
+            width: '100%',
+            padding: '10px',
+            marginBottom: '8px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {SUPPORTED_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.name}</option>
+          ))}
+        </select>
+        <div style={{ fontSize: '12px', color: '#5f6368', marginBottom: '4px' }}>
+          Also detect (up to {MAX_ALTERNATIVE_LANGUAGES}):
+        </div>
+        <div style={{
+          maxHeight: '90px',
+          overflowY: 'auto',
+          border: '1px solid #dadce0',
+          borderRadius: '4px',
+          padding: '6px',
+          fontSize: '12px'
+        }}>
+          {SUPPORTED_LANGUAGES.filter(language => language.code !== primaryLanguage).map(language => (
+            <label key={language.code} style={{ display: 'block', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={alternativeLanguages.includes(language.code)}
+                onChange={() => toggleAlternativeLanguage(language.code)}
+              />{' '}
+              {language.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <div style={{ marginBottom: '8px', fontWeight: '500', fontSize: '14px' }}>
+          Phrase Hints:
+        </div>
+        <div style={{ fontSize: '12px', color: '#5f6368', marginBottom: '6px' }}>
+          Names and jargon to expect, one per line. Lists without a channel apply to every video.
+        </div>
+        {phraseLists.map(list => (
+          <div key={list.id} style={{
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            padding: '6px',
+            marginBottom: '6px',
+            fontSize: '12px'
+          }}>
+            <div style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+              <input
+                type="text"
+                value={list.name}
+                onChange={(e) => updatePhraseList(list.id, { name: e.target.value })}
+                placeholder="List name"
+                style={{ flex: 1, minWidth: 0 }}
+              />
+              <button onClick={() => removePhraseList(list)} title="Delete this list">✕</button>
+            </div>
+            <textarea
+              value={list.phrases.join('\n')}
+              onChange={(e) => updatePhraseList(list.id, { phrases: e.target.value.split('\n') })}
+              rows={3}
+              placeholder={"Kubernetes\ngRPC\nPlasmo"}
+              style={{ width: '100%', boxSizing: 'border-box', fontSize: '12px' }}
+            />
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginTop: '4px' }}>
+              <input
+                type="text"
+                value={list.channel}
+                onChange={(e) => updatePhraseList(list.id, { channel: e.target.value })}
+                placeholder="Channel (all videos)"
+                style={{ flex: 1, minWidth: 0 }}
+              />
+              {speechProvider === 'google-v1' && (
+                <label title={`How strongly to favour these phrases, 0-${MAX_PHRASE_BOOST}`}>
+                  Boost{' '}
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_PHRASE_BOOST}
+                    value={list.boost ?? ''}
+                    onChange={(e) => updatePhraseList(list.id, {
+                      boost: e.target.value === '' ? undefined : Math.min(Math.max(Number(e.target.value), 0), MAX_PHRASE_BOOST)
+                    })}
+                    style={{ width: '44px' }}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button onClick={() => setPhraseLists([...phraseLists, createPhraseList()])} style={{ fontSize: '12px' }}>
+            + Phrase list
+          </button>
+          {currentChannel && (
+            <button onClick={() => setPhraseLists([...phraseLists, createPhraseList(currentChannel)])} style={{ fontSize: '12px' }}>
+              + List for {currentChannel}
+            </button>
+          )}
+        </div>
+      </div>
+
       <div style={{ marginBottom: '20px' }}>
         <label htmlFor="api-key" style={{ 
           display: 'block', 
@@ -230,6 +676,280 @@ function IndexPopup() {
             Test Key
           </button>
         </div>
+
+        <label htmlFor="whisper-endpoint" style={{ 
+          display: 'block', 
+          margin: '12px 0 8px 0',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Whisper Endpoint URL:
+        </label>
+        <input
+          id="whisper-endpoint"
+          type="url"
+          value={whisperEndpoint}
+          onChange={(e) => setWhisperEndpoint(e.target.value)}
+          placeholder={DEFAULT_WHISPER_ENDPOINT}
+          style={{
+            width: '100%',
+            padding: '10px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        />
+      </div>
+      
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="audio-encoding" style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Audio Capture Format:
+        </label>
+        <select
+          id="audio-encoding"
+          value={settings.audioEncoding}
+          onChange={(e) => updateSettings({ audioEncoding: e.target.value as AudioEncoding })}
+          style={{
+            width: '100%',
+            padding: '10px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {AUDIO_ENCODING_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <label style={{ display: 'block', marginTop: '8px', fontSize: '13px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={settings.vadEnabled}
+            onChange={(e) => updateSettings({ vadEnabled: e.target.checked })}
+          />{' '}
+          Skip silence and cut at pauses
+        </label>
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="transcript-source" style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Transcript Source:
+        </label>
+        <select
+          id="transcript-source"
+          value={transcriptSource}
+          onChange={(e) => setTranscriptSource(e.target.value as TranscriptSource)}
+          style={{
+            width: '100%',
+            padding: '10px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {TRANSCRIPT_SOURCE_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        {captionTracks.length > 0 && (
+          <>
+            <label htmlFor="caption-track" style={{ display: 'block', margin: '8px 0 4px', fontSize: '13px' }}>
+              This video has captions:
+            </label>
+            <select
+              id="caption-track"
+              value={captionTrackId}
+              onChange={(e) => setCaptionTrackId(e.target.value)}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '1px solid #dadce0',
+                borderRadius: '4px',
+                fontSize: '13px',
+                boxSizing: 'border-box'
+              }}
+            >
+              <option value="">Use the transcript source above</option>
+              {captionTracks.map(track => (
+                <option key={track.id} value={track.id}>{track.label}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="translation-provider" style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Translation:
+        </label>
+        <select
+          id="translation-provider"
+          value={translationProvider}
+          onChange={(e) => setTranslationProvider(e.target.value as TranslationProviderId)}
+          style={{
+            width: '100%',
+            padding: '10px',
+            marginBottom: '8px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {TRANSLATION_PROVIDER_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <div style={{ fontSize: '12px', color: '#5f6368', marginBottom: '4px' }}>
+          Translate into:
+        </div>
+        <div style={{
+          maxHeight: '90px',
+          overflowY: 'auto',
+          border: '1px solid #dadce0',
+          borderRadius: '4px',
+          padding: '6px',
+          marginBottom: '8px',
+          fontSize: '12px'
+        }}>
+          {SUPPORTED_LANGUAGES.map(language => (
+            <label key={language.code} style={{ display: 'block', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={translationLanguages.includes(language.code)}
+                onChange={() => toggleTranslationLanguage(language.code)}
+              />{' '}
+              {language.name}
+            </label>
+          ))}
+        </div>
+        <select
+          id="translation-output"
+          value={translationOutput}
+          onChange={(e) => setTranslationOutput(e.target.value as TranslationOutput)}
+          disabled={translationLanguages.length === 0}
+          style={{
+            width: '100%',
+            padding: '10px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {TRANSLATION_OUTPUT_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ marginBottom: '20px' }}>
+        <label htmlFor="output-format" style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px'
+        }}>
+          Transcript Format:
+        </label>
+        <select
+          id="output-format"
+          value={outputFormat}
+          onChange={(e) => setOutputFormat(e.target.value as TranscriptFormat)}
+          style={{
+            width: '100%',
+            padding: '10px',
+            border: '1px solid #dadce0',
+            borderRadius: '4px',
+            fontSize: '14px',
+            boxSizing: 'border-box'
+          }}
+        >
+          {TRANSCRIPT_FORMAT_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <label style={{ display: 'block', marginTop: '8px', fontSize: '13px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={settings.downloadSnapshots}
+            onChange={(e) => updateSettings({ downloadSnapshots: e.target.checked })}
+          />{' '}
+          Also download snapshots while recording
+        </label>
+      </div>
+      
+      <div style={{ marginBottom: '20px' }}>
+        <label style={{ 
+          display: 'block', 
+          marginBottom: '8px',
+          fontWeight: '500',
+          fontSize: '14px',
+          cursor: 'pointer'
+        }}>
+          <input
+            type="checkbox"
+            checked={captionsEnabled}
+            onChange={(e) => setCaptionsEnabled(e.target.checked)}
+          />{' '}
+          Live Captions on Video
+        </label>
+        {captionsEnabled && (
+          <div style={{ fontSize: '13px', color: '#333' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>
+              Font size: {captionFontSize}px
+              <input
+                type="range"
+                min={CAPTION_SETTING_LIMITS.fontSize.min}
+                max={CAPTION_SETTING_LIMITS.fontSize.max}
+                value={captionFontSize}
+                onChange={(e) => setCaptionFontSize(Number(e.target.value))}
+                style={{ width: '100%' }}
+              />
+            </label>
+            <label style={{ display: 'block', marginBottom: '4px' }}>
+              Background opacity: {Math.round(captionOpacity * 100)}%
+              <input
+                type="range"
+                min={CAPTION_SETTING_LIMITS.backgroundOpacity.min}
+                max={CAPTION_SETTING_LIMITS.backgroundOpacity.max}
+                step={0.05}
+                value={captionOpacity}
+                onChange={(e) => setCaptionOpacity(Number(e.target.value))}
+                style={{ width: '100%' }}
+              />
+            </label>
+            <label style={{ display: 'block' }}>
+              Lines shown: {captionLines}
+              <input
+                type="range"
+                min={CAPTION_SETTING_LIMITS.lineCount.min}
+                max={CAPTION_SETTING_LIMITS.lineCount.max}
+                value={captionLines}
+                onChange={(e) => setCaptionLines(Number(e.target.value))}
+                style={{ width: '100%' }}
+              />
+            </label>
+          </div>
+        )}
       </div>
       
       {/* Recording Status Section */}
@@ -250,9 +970,9 @@ function IndexPopup() {
           {isRecording ? '🔴 RECORDING' : '⏸️ Not Recording'}
         </div>
         
-        {isRecording && (
+        {currentSession && (
           <div style={{ fontSize: '14px', marginBottom: '8px' }}>
-            Duration: <strong>{formatDuration(recordingDuration)}</strong>
+            Duration: <strong>{formatDuration((now - currentSession.startedAt) / 1000)}</strong>
           </div>
         )}
         
@@ -270,9 +990,9 @@ function IndexPopup() {
           </div>
         )}
         
-        {chunksProcessed > 0 && (
+        {currentSession?.entryCount > 0 && (
           <div style={{ fontSize: '12px', color: '#5f6368', marginBottom: '4px' }}>
-            Chunks processed: {chunksProcessed}
+            Entries transcribed: {currentSession.entryCount}
           </div>
         )}
         
@@ -321,8 +1041,97 @@ function IndexPopup() {
             Test
           </button>
         </div>
+        
+        <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+          <button
+            onClick={exportNow}
+            style={{
+              background: 'white',
+              color: '#1a73e8',
+              border: '1px solid #dadce0',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              flex: 1
+            }}
+          >
+            💾 Export Now
+          </button>
+          <button
+            onClick={() => chrome.tabs.create({ url: chrome.runtime.getURL('tabs/transcripts.html') })}
+            style={{
+              background: 'white',
+              color: '#1a73e8',
+              border: '1px solid #dadce0',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              flex: 1
+            }}
+          >
+            📜 View Transcripts
+          </button>
+          <button
+            onClick={() => chrome.runtime.openOptionsPage()}
+            title="Segment length, recognition model, bitrate and file names"
+            style={{
+              background: 'white',
+              color: '#1a73e8',
+              border: '1px solid #dadce0',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            ⚙️
+          </button>
+        </div>
       </div>
 
+      {activeSessions.length > 0 && (
+        <div style={{ 
+          marginBottom: '15px',
+          padding: '12px',
+          background: '#f8f9fa',
+          borderRadius: '4px',
+          border: '1px solid #e8eaed',
+          fontSize: '13px'
+        }}>
+          <div style={{ fontWeight: '500', marginBottom: '8px' }}>
+            Active sessions ({activeSessions.length})
+          </div>
+          {activeSessions.map(session => (
+            <div key={session.tabId} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px' }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {session.tabId === activeTabId && '▶ '}{session.videoTitle}
+                </div>
+                <div style={{ fontSize: '11px', color: '#5f6368' }}>
+                  {formatDuration((now - session.startedAt) / 1000)} · {session.entryCount} entries
+                </div>
+              </div>
+              <button
+                onClick={() => stopSession(session)}
+                style={{
+                  background: '#d93025',
+                  color: 'white',
+                  border: 'none',
+                  padding: '6px 12px',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+              >
+                Stop
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div style={{ 
         textAlign: 'center', 
         marginBottom: '15px',
@@ -344,9 +1153,9 @@ function IndexPopup() {
           margin: 0,
           lineHeight: '1.4'
         }}>
-          1. Go to any YouTube video<br/>
+          1. Go to a video on YouTube, Vimeo, Twitch or any other site<br/>
           2. Click the extension icon to start/stop<br/>
-          3. Transcript files auto-download
+          3. The transcript downloads when you stop
         </p>
       </div>
       
@@ -361,7 +1170,7 @@ function IndexPopup() {
           Status: <span style={{ color: status.includes('✅') ? '#137333' : status.includes('❌') ? '#d93025' : '#1a73e8' }}>{status}</span>
         </div>
         <div style={{ color: '#5f6368' }}>
-          Auto-detects 18+ languages including Arabic, Chinese, Japanese, etc.
+          Listening for: {[...new Set([primaryLanguage, ...alternativeLanguages])].map(code => getLanguageName(code)).join(', ')}
         </div>
         <div style={{ color: '#5f6368', marginTop: '4px' }}>
           Free tier: 60 minutes/month
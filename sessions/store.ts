@@ -0,0 +1,228 @@
+import type { PlaybackAnchor } from "~playback/timeline"
+import type { VideoMetadata } from "~sites"
+import type { SpeakerNames, TranscriptionEntry } from "~speech"
+
+// Sessions live in IndexedDB so a service worker that is stopped mid-recording can pick the
+// session back up, and so long transcripts don't run into chrome.storage quotas.
+// Each entry is its own record, written as soon as the chunk comes back.
+const DB_NAME = "transcriber"
+const DB_VERSION = 1
+const SESSION_STORE = "sessions"
+const ENTRY_STORE = "entries"
+// Oldest sessions are dropped beyond this
+const MAX_SESSIONS = 50
+
+// Everything needed to resume a session, apart from its entries
+export interface SessionRecord {
+  id: string
+  tabId: number | null
+  videoUrl: string
+  videoTitle: string
+  // What the page said about the video when recording started
+  video?: VideoMetadata
+  // Wall-clock (Date.now()) start and end of the recording; endedAt is null while recording
+  startedAt: number
+  endedAt: number | null
+  chunkCount: number
+  lastChunkTime: number
+  playbackAnchors: PlaybackAnchor[]
+  // Recording stopped without the session being finished (worker or browser crashed, tab closed)
+  interrupted: boolean
+  // Names given to diarized speakers in the transcript viewer
+  speakerNames?: SpeakerNames
+}
+
+export interface TranscriptSession extends SessionRecord {
+  entries: TranscriptionEntry[]
+}
+
+// A session's state and how many entries it has, for listing sessions without loading every entry
+export interface SessionSummary extends SessionRecord {
+  entryCount: number
+}
+
+interface EntryRecord {
+  sessionId: string
+  entry: TranscriptionEntry
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+        const entries = db.createObjectStore(ENTRY_STORE, { autoIncrement: true })
+        entries.createIndex('sessionId', 'sessionId')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        database = null
+        reject(request.error)
+      }
+    })
+  }
+  return database
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// The page's own video title beats the tab title, which sites pad with their name
+export function createSession(tab: chrome.tabs.Tab, video?: VideoMetadata): SessionRecord {
+  const startedAt = Date.now()
+  return {
+    id: String(startedAt),
+    tabId: tab.id ?? null,
+    videoUrl: video?.url || tab.url || '',
+    videoTitle: video?.title || (tab.title || 'Untitled video').replace(/ - YouTube$/, ''),
+    video,
+    startedAt,
+    endedAt: null,
+    chunkCount: 0,
+    lastChunkTime: startedAt,
+    playbackAnchors: [],
+    interrupted: false
+  }
+}
+
+// Insert or update a session's state. Entries are written separately with appendEntry.
+export async function saveSession(session: SessionRecord) {
+  const { entries, entryCount, ...record } = session as TranscriptSession & SessionSummary
+  const db = await openDatabase()
+  const transaction = db.transaction(SESSION_STORE, 'readwrite')
+  transaction.objectStore(SESSION_STORE).put(record)
+  await completion(transaction)
+}
+
+export async function appendEntry(sessionId: string, entry: TranscriptionEntry) {
+  const db = await openDatabase()
+  const transaction = db.transaction(ENTRY_STORE, 'readwrite')
+  transaction.objectStore(ENTRY_STORE).add({ sessionId, entry } as EntryRecord)
+  await completion(transaction)
+}
+
+// Several entries in one transaction, e.g. a whole caption track
+export async function appendEntries(sessionId: string, entries: TranscriptionEntry[]) {
+  const db = await openDatabase()
+  const transaction = db.transaction(ENTRY_STORE, 'readwrite')
+  const store = transaction.objectStore(ENTRY_STORE)
+  entries.forEach(entry => store.add({ sessionId, entry } as EntryRecord))
+  await completion(transaction)
+}
+
+// Overwrite the entry at `index` in a session's entries, e.g. after a reviewer corrected it
+export async function replaceEntry(sessionId: string, index: number, entry: TranscriptionEntry) {
+  const db = await openDatabase()
+  const transaction = db.transaction(ENTRY_STORE, 'readwrite')
+
+  let position = 0
+  const cursorRequest = transaction.objectStore(ENTRY_STORE).index('sessionId').openCursor(IDBKeyRange.only(sessionId))
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    if (position === index) {
+      cursor.update({ sessionId, entry } as EntryRecord)
+      return
+    }
+    position++
+    cursor.continue()
+  }
+
+  await completion(transaction)
+}
+
+export async function getSession(id: string): Promise<TranscriptSession | null> {
+  const db = await openDatabase()
+  const transaction = db.transaction([SESSION_STORE, ENTRY_STORE], 'readonly')
+  const record = await promisify<SessionRecord>(transaction.objectStore(SESSION_STORE).get(id))
+  if (!record) return null
+
+  // Auto-increment keys keep entries in the order they were appended
+  const entries = await promisify<EntryRecord[]>(transaction.objectStore(ENTRY_STORE).index('sessionId').getAll(id))
+  return { ...record, entries: entries.map(({ entry }) => entry) }
+}
+
+// Stored sessions without their entries, newest first. Entries are counted through the
+// sessionId index, which doesn't read them.
+export async function listSessionSummaries(): Promise<SessionSummary[]> {
+  const db = await openDatabase()
+  const transaction = db.transaction([SESSION_STORE, ENTRY_STORE], 'readonly')
+  const records = await promisify<SessionRecord[]>(transaction.objectStore(SESSION_STORE).getAll())
+  const index = transaction.objectStore(ENTRY_STORE).index('sessionId')
+  const counts = await Promise.all(records.map(record => promisify(index.count(IDBKeyRange.only(record.id)))))
+
+  return records
+    .map((record, i) => ({ ...record, entryCount: counts[i] }))
+    .sort((a, b) => b.startedAt - a.startedAt)
+}
+
+// All stored sessions with their entries, newest first - for searching across transcripts
+export async function listSessions(): Promise<TranscriptSession[]> {
+  const db = await openDatabase()
+  const transaction = db.transaction([SESSION_STORE, ENTRY_STORE], 'readonly')
+  const records = await promisify<SessionRecord[]>(transaction.objectStore(SESSION_STORE).getAll())
+  const entries = await promisify<EntryRecord[]>(transaction.objectStore(ENTRY_STORE).getAll())
+
+  const bySession = new Map<string, TranscriptionEntry[]>()
+  for (const { sessionId, entry } of entries) {
+    if (!bySession.has(sessionId)) bySession.set(sessionId, [])
+    bySession.get(sessionId).push(entry)
+  }
+
+  return records
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .map(record => ({ ...record, entries: bySession.get(record.id) || [] }))
+}
+
+// Sessions that never reached stopRecording - either still being recorded or interrupted
+export async function listUnfinishedSessions(): Promise<SessionSummary[]> {
+  const sessions = await listSessionSummaries()
+  return sessions.filter(session => session.endedAt === null)
+}
+
+export async function deleteSession(id: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction([SESSION_STORE, ENTRY_STORE], 'readwrite')
+  transaction.objectStore(SESSION_STORE).delete(id)
+
+  const cursorRequest = transaction.objectStore(ENTRY_STORE).index('sessionId').openKeyCursor(IDBKeyRange.only(id))
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    transaction.objectStore(ENTRY_STORE).delete(cursor.primaryKey)
+    cursor.continue()
+  }
+
+  await completion(transaction)
+}
+
+// Drop the oldest finished sessions beyond MAX_SESSIONS
+export async function pruneSessions() {
+  const db = await openDatabase()
+  const records = await promisify<SessionRecord[]>(
+    db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).getAll()
+  )
+
+  const expired = records
+    .filter(record => record.endedAt !== null)
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(MAX_SESSIONS)
+
+  for (const record of expired) await deleteSession(record.id)
+}
@@ -0,0 +1,127 @@
+import { Storage } from "@plasmohq/storage"
+
+import { AUDIO_ENCODING_OPTIONS, DEFAULT_AUDIO_ENCODING } from "~capture/encodings"
+
+import type { RecognitionModel, Settings, StoredSettings } from "./types"
+
+export type { RecognitionModel, Settings, StoredSettings } from "./types"
+
+const storage = new Storage()
+
+// Bump whenever a setting is renamed or changes meaning, and add a step to MIGRATIONS
+export const SETTINGS_VERSION = 1
+
+export const DEFAULT_SETTINGS: Settings = {
+  segmentLengthSeconds: 25,
+  vadEnabled: true,
+  audioEncoding: DEFAULT_AUDIO_ENCODING,
+  recognitionModel: 'video',
+  useEnhanced: true,
+  downloadSnapshots: false,
+  snapshotInterval: 5,
+  audioBitrateKbps: 128,
+  filenamePattern: 'transcript-{title}-{timestamp}'
+}
+
+// Segments are at least 8 seconds long, and Google's synchronous API takes at most a minute of audio
+export const SETTING_LIMITS = {
+  segmentLengthSeconds: { min: 10, max: 55 },
+  snapshotInterval: { min: 1, max: 100 },
+  audioBitrateKbps: { min: 32, max: 256 }
+}
+
+export const RECOGNITION_MODEL_OPTIONS: { id: RecognitionModel; label: string }[] = [
+  { id: 'video', label: 'Video (best for most videos)' },
+  { id: 'latest_long', label: 'Latest long-form' },
+  { id: 'default', label: 'Default' },
+  { id: 'phone_call', label: 'Phone call (low-quality audio)' }
+]
+
+export const AUDIO_BITRATE_OPTIONS = [64, 96, 128, 160, 192, 256]
+
+export const FILENAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{title}', description: 'video title' },
+  { token: '{timestamp}', description: 'export date and time' },
+  { token: '{date}', description: 'export date' }
+]
+
+// Stored version -> upgrade to the next version. Version 1 is the first schema.
+const MIGRATIONS: Record<number, (stored: Record<string, unknown>) => Record<string, unknown>> = {}
+
+function migrate(stored: Record<string, unknown>): Record<string, unknown> {
+  let version = typeof stored.version === 'number' ? stored.version : SETTINGS_VERSION
+  let upgraded = stored
+  while (version < SETTINGS_VERSION) {
+    upgraded = MIGRATIONS[version]?.(upgraded) ?? upgraded
+    version++
+  }
+  return upgraded
+}
+
+function clamp(value: number, { min, max }: { min: number; max: number }): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+// Fill in defaults for anything missing, out of range or of the wrong type, so callers can
+// rely on every field whatever version or state storage is in
+export function normalizeSettings(raw: unknown): Settings {
+  const stored = raw && typeof raw === 'object' ? migrate(raw as Record<string, unknown>) : {}
+  const number = (key: keyof typeof SETTING_LIMITS) => {
+    const value = stored[key]
+    return typeof value === 'number' && Number.isFinite(value)
+      ? clamp(Math.round(value), SETTING_LIMITS[key])
+      : DEFAULT_SETTINGS[key]
+  }
+
+  const boolean = (key: 'vadEnabled' | 'useEnhanced' | 'downloadSnapshots') => {
+    const value = stored[key]
+    return typeof value === 'boolean' ? value : DEFAULT_SETTINGS[key]
+  }
+
+  return {
+    segmentLengthSeconds: number('segmentLengthSeconds'),
+    vadEnabled: boolean('vadEnabled'),
+    audioEncoding: AUDIO_ENCODING_OPTIONS.some(option => option.id === stored.audioEncoding)
+      ? stored.audioEncoding as Settings['audioEncoding']
+      : DEFAULT_SETTINGS.audioEncoding,
+    recognitionModel: RECOGNITION_MODEL_OPTIONS.some(option => option.id === stored.recognitionModel)
+      ? stored.recognitionModel as RecognitionModel
+      : DEFAULT_SETTINGS.recognitionModel,
+    useEnhanced: boolean('useEnhanced'),
+    downloadSnapshots: boolean('downloadSnapshots'),
+    snapshotInterval: number('snapshotInterval'),
+    audioBitrateKbps: number('audioBitrateKbps'),
+    filenamePattern: typeof stored.filenamePattern === 'string' && stored.filenamePattern.trim()
+      ? stored.filenamePattern.trim()
+      : DEFAULT_SETTINGS.filenamePattern
+  }
+}
+
+export function toStoredSettings(settings: Settings): StoredSettings {
+  return { ...settings, version: SETTINGS_VERSION }
+}
+
+export async function getSettings(): Promise<Settings> {
+  return normalizeSettings(await storage.get<StoredSettings>("settings"))
+}
+
+// Call `callback` with the new settings whenever the options page changes them
+export function watchSettings(callback: (settings: Settings) => void): () => void {
+  const callbacks = { settings: ({ newValue }: { newValue?: unknown }) => callback(normalizeSettings(newValue)) }
+  storage.watch(callbacks)
+  return () => storage.unwatch(callbacks)
+}
+
+// Fill a filename pattern's tokens and strip characters that aren't allowed in file names.
+// Slashes are kept, so a pattern can put downloads in a subfolder.
+export function formatFilename(pattern: string, values: { title: string; date: Date }): string {
+  const iso = values.date.toISOString()
+  const name = pattern
+    .replace(/\{title\}/g, values.title)
+    .replace(/\{timestamp\}/g, iso.slice(0, 19).replace(/:/g, '-'))
+    .replace(/\{date\}/g, iso.slice(0, 10))
+    .replace(/[<>:"|?*\\]/g, '')
+    .replace(/\.{2,}/g, '.')
+    .replace(/^[/.\s]+/, '')
+  return name || 'transcript'
+}
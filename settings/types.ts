@@ -0,0 +1,28 @@
+import type { AudioEncoding } from "~capture/encodings"
+
+// Google v1 recognition models worth offering for video audio
+export type RecognitionModel = 'video' | 'latest_long' | 'default' | 'phone_call'
+
+// Recording and output settings edited on the options page
+export interface Settings {
+  // Longest a segment runs before it's force-cut, when nobody pauses
+  segmentLengthSeconds: number
+  // Skip silence and cut segments at pauses
+  vadEnabled: boolean
+  audioEncoding: AudioEncoding
+  recognitionModel: RecognitionModel
+  // Google's enhanced variant of the model, billed at a higher rate
+  useEnhanced: boolean
+  // Download the transcript so far every snapshotInterval entries while recording
+  downloadSnapshots: boolean
+  snapshotInterval: number
+  // WebM recording bitrate; PCM encodings ignore it
+  audioBitrateKbps: number
+  // Download name without the extension; see FILENAME_TOKENS
+  filenamePattern: string
+}
+
+// What's in storage: the settings plus the schema version they were written with
+export interface StoredSettings extends Settings {
+  version: number
+}
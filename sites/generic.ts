@@ -0,0 +1,72 @@
+import type { SiteAdapter, SiteId, VideoMetadata } from "./types"
+
+export function getMetaContent(selector: string): string | undefined {
+  return document.querySelector<HTMLMetaElement>(selector)?.content?.trim() || undefined
+}
+
+export function getText(selector: string): string | undefined {
+  return document.querySelector(selector)?.textContent?.trim() || undefined
+}
+
+// Fallback for any page with a <video> element, and the base the site-specific adapters refine
+export class GenericSiteAdapter implements SiteAdapter {
+  readonly id: SiteId = 'generic'
+  readonly label: string = 'Web page'
+
+  matches(url: URL): boolean {
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  }
+
+  getVideoKey(url: URL): string | null {
+    return url.origin + url.pathname
+  }
+
+  // Media fragment - honoured when the page is the video file itself
+  getTimestampUrl(url: URL, time: number): string {
+    const target = new URL(url)
+    target.hash = `t=${Math.floor(time)}`
+    return target.toString()
+  }
+
+  // Pages can have several videos (previews, ads); the largest visible one is almost always the main
+  // one, and one that's playing beats one that isn't
+  findVideo(): HTMLVideoElement | null {
+    const score = (video: HTMLVideoElement) => {
+      const { width, height } = video.getBoundingClientRect()
+      return width * height * (video.paused ? 1 : 2)
+    }
+
+    let best: HTMLVideoElement | null = null
+    for (const video of document.querySelectorAll('video')) {
+      if (!best || score(video) > score(best)) best = video
+    }
+    return best
+  }
+
+  getPlayerContainer(video: HTMLVideoElement | null): HTMLElement | null {
+    return video?.parentElement || null
+  }
+
+  getMetadata(video: HTMLVideoElement | null): VideoMetadata {
+    return {
+      title: this.getTitle(),
+      channel: getMetaContent('meta[name="author"]') || getMetaContent('meta[property="og:site_name"]'),
+      url: location.href,
+      videoId: this.getVideoId(new URL(location.href)),
+      canonicalUrl: document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || undefined,
+      uploadDate: getMetaContent('meta[itemprop="uploadDate"]')
+        || getMetaContent('meta[itemprop="datePublished"]')
+        || getMetaContent('meta[property="video:release_date"]'),
+      duration: video && Number.isFinite(video.duration) ? video.duration : undefined
+    }
+  }
+
+  // A page URL isn't a video id; sites with real ids override this
+  protected getVideoId(url: URL): string | undefined {
+    return undefined
+  }
+
+  protected getTitle(): string {
+    return getMetaContent('meta[property="og:title"]') || document.title || 'Untitled video'
+  }
+}
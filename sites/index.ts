@@ -0,0 +1,54 @@
+import { GenericSiteAdapter } from "./generic"
+import { TwitchAdapter } from "./twitch"
+import { VimeoAdapter } from "./vimeo"
+import { YouTubeAdapter } from "./youtube"
+import type { SiteAdapter } from "./types"
+
+export type { SiteAdapter, SiteId, VideoMetadata } from "./types"
+
+// Checked in order; the generic adapter takes any other web page
+const adapters: SiteAdapter[] = [
+  new YouTubeAdapter(),
+  new VimeoAdapter(),
+  new TwitchAdapter()
+]
+
+const genericAdapter = new GenericSiteAdapter()
+
+function parseUrl(url: string | undefined): URL | null {
+  try {
+    return new URL(url)
+  } catch {
+    return null
+  }
+}
+
+// Only web pages can be recorded - not chrome:// pages, the Web Store or local files
+export function isSupportedUrl(url: string | undefined): boolean {
+  const parsed = parseUrl(url)
+  return !!parsed && genericAdapter.matches(parsed)
+}
+
+export function getSiteAdapter(url: string | undefined): SiteAdapter {
+  const parsed = parseUrl(url)
+  return (parsed && adapters.find(adapter => adapter.matches(parsed))) || genericAdapter
+}
+
+// Whether the URL is on a video site with its own adapter, rather than just any web page
+export function isKnownVideoSite(url: string | undefined): boolean {
+  return getSiteAdapter(url) !== genericAdapter
+}
+
+// Same video, ignoring timestamps and other params; null for URLs that can't be compared
+export function getVideoKey(url: string | undefined): string | null {
+  const parsed = parseUrl(url)
+  if (!parsed || !isSupportedUrl(url)) return null
+
+  const adapter = getSiteAdapter(url)
+  const key = adapter.getVideoKey(parsed)
+  return key && `${adapter.id}:${key}`
+}
+
+export function getTimestampUrl(url: string, time: number): string {
+  return getSiteAdapter(url).getTimestampUrl(new URL(url), time)
+}
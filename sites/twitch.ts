@@ -0,0 +1,51 @@
+import { GenericSiteAdapter, getText } from "./generic"
+import type { SiteId, VideoMetadata } from "./types"
+
+export class TwitchAdapter extends GenericSiteAdapter {
+  readonly id: SiteId = 'twitch'
+  readonly label = 'Twitch'
+
+  matches(url: URL): boolean {
+    return url.hostname === 'twitch.tv' || url.hostname.endsWith('.twitch.tv')
+  }
+
+  // VODs live under /videos/<id>; anything else is a channel's live stream
+  getVideoKey(url: URL): string | null {
+    return url.pathname.match(/^\/videos\/(\d+)/)?.[1] || url.pathname.split('/')[1] || null
+  }
+
+  // Live streams are keyed by channel, but only VODs have an id
+  protected getVideoId(url: URL): string | undefined {
+    return url.pathname.match(/^\/videos\/(\d+)/)?.[1]
+  }
+
+  // Only VODs can be opened at a moment; a live stream is always at its live edge
+  getTimestampUrl(url: URL, time: number): string {
+    const target = new URL(url)
+    if (!target.pathname.startsWith('/videos/')) return target.toString()
+
+    const seconds = Math.floor(time)
+    target.searchParams.set('t', `${Math.floor(seconds / 3600)}h${Math.floor(seconds / 60) % 60}m${seconds % 60}s`)
+    return target.toString()
+  }
+
+  findVideo(): HTMLVideoElement | null {
+    return document.querySelector<HTMLVideoElement>('.video-player video') || super.findVideo()
+  }
+
+  getPlayerContainer(video: HTMLVideoElement | null): HTMLElement | null {
+    return video?.closest<HTMLElement>('.video-player__container') || super.getPlayerContainer(video)
+  }
+
+  getMetadata(video: HTMLVideoElement | null): VideoMetadata {
+    const metadata = super.getMetadata(video)
+    return {
+      ...metadata,
+      channel: getText('.channel-info-content h1') || metadata.channel
+    }
+  }
+
+  protected getTitle(): string {
+    return getText('[data-a-target="stream-title"]') || document.title.replace(/ - Twitch$/, '')
+  }
+}
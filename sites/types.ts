@@ -0,0 +1,46 @@
+import type { CaptionCue, CaptionTrack } from "~captions/types"
+
+export type SiteId = 'youtube' | 'vimeo' | 'twitch' | 'generic'
+
+// What the page tells us about the video being transcribed
+export interface VideoMetadata {
+  title: string
+  // Uploader or channel, when the site shows one
+  channel?: string
+  url: string
+  // The site's own id for the video, on sites that have one
+  videoId?: string
+  // The page's preferred address for the video, without playlist or tracking params
+  canonicalUrl?: string
+  // As the page gives it, usually an ISO 8601 date
+  uploadDate?: string
+  // Seconds; missing for live streams
+  duration?: number
+}
+
+// Knows where a site keeps its player and how its video URLs work.
+// The URL methods run anywhere; the DOM methods only in the content script.
+export interface SiteAdapter {
+  readonly id: SiteId
+  readonly label: string
+
+  matches(url: URL): boolean
+
+  // Identifies the video regardless of timestamps or other query params, to find a tab already playing it
+  getVideoKey(url: URL): string | null
+
+  // Link that opens the video `time` seconds in
+  getTimestampUrl(url: URL, time: number): string
+
+  // The video being watched, if the page has one
+  findVideo(): HTMLVideoElement | null
+
+  // Element the caption overlay goes in, so it follows the player into fullscreen
+  getPlayerContainer(video: HTMLVideoElement | null): HTMLElement | null
+
+  getMetadata(video: HTMLVideoElement | null): VideoMetadata
+
+  // Captions the site already has for the video, for sites that expose them
+  getCaptionTracks?(): Promise<CaptionTrack[]>
+  loadCaptionTrack?(trackId: string): Promise<CaptionCue[]>
+}
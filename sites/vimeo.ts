@@ -0,0 +1,38 @@
+import { GenericSiteAdapter, getMetaContent } from "./generic"
+import type { SiteId } from "./types"
+
+export class VimeoAdapter extends GenericSiteAdapter {
+  readonly id: SiteId = 'vimeo'
+  readonly label = 'Vimeo'
+
+  matches(url: URL): boolean {
+    return url.hostname === 'vimeo.com' || url.hostname.endsWith('.vimeo.com')
+  }
+
+  // vimeo.com/123456, vimeo.com/channels/staffpicks/123456 and player.vimeo.com/video/123456
+  getVideoKey(url: URL): string | null {
+    return url.pathname.split('/').find(part => /^\d+$/.test(part)) || null
+  }
+
+  protected getVideoId(url: URL): string | undefined {
+    return this.getVideoKey(url) || undefined
+  }
+
+  getTimestampUrl(url: URL, time: number): string {
+    const target = new URL(url)
+    target.hash = `t=${Math.floor(time)}s`
+    return target.toString()
+  }
+
+  findVideo(): HTMLVideoElement | null {
+    return document.querySelector<HTMLVideoElement>('.vp-video-wrapper video') || super.findVideo()
+  }
+
+  getPlayerContainer(video: HTMLVideoElement | null): HTMLElement | null {
+    return video?.closest<HTMLElement>('.vp-video-wrapper') || super.getPlayerContainer(video)
+  }
+
+  protected getTitle(): string {
+    return getMetaContent('meta[property="og:title"]') || document.title.replace(/ on Vimeo$/, '')
+  }
+}
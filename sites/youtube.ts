@@ -0,0 +1,63 @@
+import { getYouTubeCaptionTracks, loadYouTubeCaptionTrack } from "~captions/youtube"
+import type { CaptionCue, CaptionTrack } from "~captions/types"
+
+import { GenericSiteAdapter, getMetaContent, getText } from "./generic"
+import type { SiteId, VideoMetadata } from "./types"
+
+export class YouTubeAdapter extends GenericSiteAdapter {
+  readonly id: SiteId = 'youtube'
+  readonly label = 'YouTube'
+
+  matches(url: URL): boolean {
+    return url.hostname === 'youtube.com' || url.hostname.endsWith('.youtube.com')
+  }
+
+  getVideoKey(url: URL): string | null {
+    return url.searchParams.get('v') || url.pathname.match(/^\/(?:shorts|live)\/([\w-]+)/)?.[1] || null
+  }
+
+  getTimestampUrl(url: URL, time: number): string {
+    const target = new URL(url)
+    target.searchParams.set('t', `${Math.floor(time)}s`)
+    return target.toString()
+  }
+
+  findVideo(): HTMLVideoElement | null {
+    return document.querySelector<HTMLVideoElement>('#movie_player video') || super.findVideo()
+  }
+
+  getPlayerContainer(video: HTMLVideoElement | null): HTMLElement | null {
+    return document.querySelector<HTMLElement>('#movie_player') || super.getPlayerContainer(video)
+  }
+
+  // The canonical link and meta tags go stale when navigating between videos, so the
+  // canonical URL is rebuilt from the id instead, and the upload date is only kept while the
+  // microdata still names this video
+  getMetadata(video: HTMLVideoElement | null): VideoMetadata {
+    const metadata = super.getMetadata(video)
+    const microdataId = getMetaContent('meta[itemprop="identifier"]') || getMetaContent('meta[itemprop="videoId"]')
+    return {
+      ...metadata,
+      channel: getText('ytd-watch-metadata ytd-channel-name a'),
+      canonicalUrl: metadata.videoId ? `https://www.youtube.com/watch?v=${metadata.videoId}` : undefined,
+      uploadDate: metadata.videoId && microdataId === metadata.videoId ? metadata.uploadDate : undefined
+    }
+  }
+
+  protected getVideoId(url: URL): string | undefined {
+    return this.getVideoKey(url) || undefined
+  }
+
+  getCaptionTracks(): Promise<CaptionTrack[]> {
+    return getYouTubeCaptionTracks()
+  }
+
+  loadCaptionTrack(trackId: string): Promise<CaptionCue[]> {
+    return loadYouTubeCaptionTrack(trackId)
+  }
+
+  // og:title isn't updated when navigating between videos, the heading and document title are
+  protected getTitle(): string {
+    return getText('h1.ytd-watch-metadata') || document.title.replace(/^\(\d+\) /, '').replace(/ - YouTube$/, '')
+  }
+}
@@ -0,0 +1,49 @@
+import { Storage } from "@plasmohq/storage"
+
+import type { TranscriptionEntry } from "./types"
+
+const storage = new Storage()
+
+// Google v1 returns at most 30 alternatives, but only the first few are ever useful
+export const MAX_ALTERNATIVES = 5
+
+export interface ConfidenceSettings {
+  // Entries scored below this (0-1) are flagged for review; 0 flags nothing
+  threshold: number
+  // Alternative transcripts kept per entry, besides the chosen one
+  alternatives: number
+}
+
+export const DEFAULT_CONFIDENCE_SETTINGS: ConfidenceSettings = {
+  threshold: 0.7,
+  alternatives: 2
+}
+
+export async function getConfidenceSettings(): Promise<ConfidenceSettings> {
+  const threshold = await storage.get<number>("low_confidence_threshold")
+  const alternatives = await storage.get<number>("max_alternatives")
+
+  return {
+    threshold: threshold ?? DEFAULT_CONFIDENCE_SETTINGS.threshold,
+    alternatives: Math.min(alternatives ?? DEFAULT_CONFIDENCE_SETTINGS.alternatives, MAX_ALTERNATIVES)
+  }
+}
+
+// Entries without a score (e.g. from caption tracks) and ones a reviewer already checked are never flagged
+export function isLowConfidence(entry: TranscriptionEntry, threshold: number): boolean {
+  return !entry.reviewed && entry.confidence !== undefined && entry.confidence < threshold
+}
+
+// Swap an entry's text for one of its alternatives. The old text becomes an alternative in turn,
+// and word timings and translations, which described the old text, are dropped.
+export function chooseAlternative(entry: TranscriptionEntry, text: string): TranscriptionEntry {
+  const { words, translations, ...rest } = entry
+  if (text === entry.text) return { ...entry, reviewed: true }
+
+  return {
+    ...rest,
+    text,
+    alternatives: [entry.text, ...(entry.alternatives || []).filter(alternative => alternative !== text)],
+    reviewed: true
+  }
+}
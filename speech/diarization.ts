@@ -0,0 +1,135 @@
+import { Storage } from "@plasmohq/storage"
+
+import type { TranscriptionEntry, WordTiming } from "./types"
+import { formatTimestamp } from "./utils"
+
+const storage = new Storage()
+
+// Upper bound offered in settings; recognition gets less reliable with many speakers anyway
+export const MAX_SPEAKER_COUNT = 10
+
+export interface DiarizationSettings {
+  enabled: boolean
+  minSpeakers: number
+  maxSpeakers: number
+}
+
+export const DEFAULT_DIARIZATION_SETTINGS: DiarizationSettings = {
+  enabled: false,
+  minSpeakers: 2,
+  maxSpeakers: 6
+}
+
+// Names given to speakers after a session: by speaker number for the whole session ("1"),
+// or by getSpeakerKey for one chunk ("3:1"), which takes precedence
+export type SpeakerNames = Record<string, string>
+
+export async function getDiarizationSettings(): Promise<DiarizationSettings> {
+  const minSpeakers = (await storage.get<number>("min_speaker_count")) || DEFAULT_DIARIZATION_SETTINGS.minSpeakers
+  const maxSpeakers = (await storage.get<number>("max_speaker_count")) || DEFAULT_DIARIZATION_SETTINGS.maxSpeakers
+
+  return {
+    enabled: (await storage.get<boolean>("diarization_enabled")) ?? DEFAULT_DIARIZATION_SETTINGS.enabled,
+    minSpeakers: Math.min(minSpeakers, maxSpeakers),
+    maxSpeakers: Math.max(minSpeakers, maxSpeakers)
+  }
+}
+
+// A recognized word and who said it
+export interface SpeakerWord extends WordTiming {
+  speaker: number
+}
+
+// Words compared without case or punctuation, which alternatives don't always agree on
+function comparable(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+}
+
+function comparableText(text: string): string {
+  return text.split(/\s+/).map(comparable).filter(Boolean).join(' ')
+}
+
+// Split a whole-chunk alternative into one piece per speaker turn, by aligning its words with
+// the turns' words (longest common subsequence). Words the top transcript doesn't have go to
+// the turn the alignment has reached, so "who" in place of "how" lands where "how" was.
+function splitAlternative(text: string, turns: SpeakerWord[][]): string[] {
+  const words = text.split(/\s+/).filter(Boolean)
+  const reference = turns.flatMap((turn, index) => turn.map(word => ({ word: comparable(word.word), turn: index })))
+  const matches = (i: number, j: number) => comparable(words[i]) === reference[j].word
+
+  // common[i][j]: longest common subsequence of words[i..] and reference[j..]
+  const common = Array.from({ length: words.length + 1 }, () => new Array<number>(reference.length + 1).fill(0))
+  for (let i = words.length - 1; i >= 0; i--) {
+    for (let j = reference.length - 1; j >= 0; j--) {
+      common[i][j] = matches(i, j) ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const pieces: string[][] = turns.map(() => [])
+  let turn = 0
+  for (let i = 0, j = 0; i < words.length;) {
+    if (j < reference.length && matches(i, j)) {
+      turn = reference[j].turn
+      pieces[turn].push(words[i++])
+      j++
+    } else if (j < reference.length && common[i][j + 1] >= common[i + 1][j]) {
+      turn = reference[j++].turn
+    } else {
+      pieces[turn].push(words[i++])
+    }
+  }
+  return pieces.map(piece => piece.join(' '))
+}
+
+// Split a chunk's entry into one entry per speaker turn. Recognizers number speakers per
+// request, so the same number in two chunks isn't guaranteed to be the same person.
+// The chunk's alternatives are split across the turns along with it.
+export function splitAtSpeakerTurns(entry: TranscriptionEntry, words: SpeakerWord[]): TranscriptionEntry[] {
+  const turns: SpeakerWord[][] = []
+  for (const word of words) {
+    const turn = turns[turns.length - 1]
+    if (turn && turn[0].speaker === word.speaker) {
+      turn.push(word)
+    } else {
+      turns.push([word])
+    }
+  }
+
+  const { alternatives, ...rest } = entry
+  const pieces = (alternatives || []).map(alternative => splitAlternative(alternative, turns))
+
+  return turns.map((turn, index) => {
+    const text = turn.map(word => word.word).join(' ')
+    const turnEntry: TranscriptionEntry = {
+      ...rest,
+      timestamp: formatTimestamp(turn[0].startTime),
+      startTime: turn[0].startTime,
+      endTime: turn[turn.length - 1].endTime,
+      text,
+      speaker: turn[0].speaker,
+      words: turn.map(({ speaker, ...timing }) => timing)
+    }
+
+    // A piece that only differs in case or punctuation isn't an alternative for this turn
+    const turnAlternatives = [...new Set(pieces.map(piece => piece[index]))]
+      .filter(alternative => alternative && comparableText(alternative) !== comparableText(text))
+    if (turnAlternatives.length > 0) turnEntry.alternatives = turnAlternatives
+    return turnEntry
+  })
+}
+
+// Speaker numbers restart with every request, so a chunk whose numbering doesn't match the
+// rest of the session can be corrected on its own: "3:1" is speaker 1 of chunk 3
+export function getSpeakerKey(entry: TranscriptionEntry): string {
+  return `${entry.chunkNumber}:${entry.speaker}`
+}
+
+export function getSpeakerName(entry: TranscriptionEntry, names?: SpeakerNames): string {
+  return names?.[getSpeakerKey(entry)]?.trim() || names?.[entry.speaker]?.trim() || `Speaker ${entry.speaker}`
+}
+
+// "Speaker 1: text" for entries with a speaker, the text alone otherwise
+export function labelSpeaker(entry: TranscriptionEntry, text: string, names?: SpeakerNames): string {
+  if (entry.speaker === undefined) return text
+  return `${getSpeakerName(entry, names)}: ${text}`
+}
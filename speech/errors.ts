@@ -0,0 +1,30 @@
+// Thrown by providers for failures worth retrying later: rate limiting, server errors and
+// requests that never got a response (status 0).
+// Anything else a provider can't use (bad config, unsupported audio) resolves to null instead.
+export class RecognitionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message)
+    this.name = 'RecognitionError'
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+// fetch rejects when the network or the endpoint can't be reached; report that as retryable
+export async function fetchOrThrow(url: string, init: RequestInit, service: string): Promise<Response> {
+  try {
+    return await fetch(url, init)
+  } catch (error) {
+    throw new RecognitionError(`${service} unreachable: ${error instanceof Error ? error.message : error}`, 0)
+  }
+}
+
+// Rate limits, server errors and network failures are transient
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof RecognitionError
+}
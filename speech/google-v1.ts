@@ -0,0 +1,318 @@
+import { Storage } from "@plasmohq/storage"
+
+import { DEFAULT_SETTINGS, getSettings } from "~settings"
+import type { Settings } from "~settings"
+
+import type {
+  AudioChunk,
+  NormalizedResult,
+  ProviderStatus,
+  RecognitionContext,
+  SpeechProvider,
+  TranscriptionEntry
+} from "./types"
+import { getConfidenceSettings } from "./confidence"
+import { RecognitionError, fetchOrThrow, isRetryableStatus } from "./errors"
+import { getDiarizationSettings, splitAtSpeakerTurns } from "./diarization"
+import type { DiarizationSettings } from "./diarization"
+import { getLanguageSettings } from "./languages"
+import type { LanguageSettings } from "./languages"
+import { MAX_PHRASE_BOOST, getPhraseLists, selectPhraseLists } from "./phrases"
+import type { PhraseList } from "./phrases"
+import { blobToBase64 } from "./utils"
+import { getWordTimestampsEnabled, offsetWords } from "./words"
+
+const storage = new Storage()
+
+const RECOGNIZE_URL = 'https://speech.googleapis.com/v1/speech:recognize'
+
+interface GoogleRecognitionConfig {
+  encoding: string
+  sampleRateHertz?: number
+  audioChannelCount?: number
+  enableSeparateRecognitionPerChannel?: boolean
+  languageCode: string
+  alternativeLanguageCodes?: string[]
+  enableAutomaticPunctuation: boolean
+  model: string
+  useEnhanced: boolean
+  maxAlternatives: number
+  enableWordTimeOffsets?: boolean
+  speechContexts?: { phrases: string[]; boost?: number }[]
+  diarizationConfig?: {
+    enableSpeakerDiarization: boolean
+    minSpeakerCount: number
+    maxSpeakerCount: number
+  }
+}
+
+interface GoogleWordInfo {
+  word: string
+  // Durations like "1.500s", from the start of the audio
+  startTime?: string
+  endTime?: string
+  speakerTag?: number
+}
+
+interface GoogleRecognizeResponse {
+  results?: {
+    alternatives?: { transcript?: string; confidence?: number; words?: GoogleWordInfo[] }[]
+    languageCode?: string
+  }[]
+  totalBilledTime?: string
+  requestId?: string
+}
+
+// Outcome of a single recognize call - either a parsed response or the error body
+interface AttemptResult {
+  result?: GoogleRecognizeResponse
+  errorText?: string
+}
+
+export class GoogleV1Provider implements SpeechProvider<GoogleRecognizeResponse> {
+  readonly id = 'google-v1' as const
+  readonly label = 'Google Cloud Speech-to-Text (v1)'
+
+  private apiKey: string | null = null
+  private languages: LanguageSettings | null = null
+  private diarization: DiarizationSettings | null = null
+  private wordTimestamps = false
+  private alternatives = 0
+  private phraseLists: PhraseList[] = []
+  private settings: Settings = DEFAULT_SETTINGS
+
+  async configure(context?: RecognitionContext): Promise<ProviderStatus> {
+    this.apiKey = (await storage.get("google_api_key")) || null
+    if (!this.apiKey) {
+      return { ready: false, error: 'Please add your Google Cloud API key in the extension popup' }
+    }
+    console.log('API key available, length:', this.apiKey.length)
+
+    this.languages = await getLanguageSettings()
+    console.log('Recognition languages:', this.languages)
+
+    this.diarization = await getDiarizationSettings()
+    this.wordTimestamps = await getWordTimestampsEnabled()
+    this.alternatives = (await getConfidenceSettings()).alternatives
+    this.phraseLists = selectPhraseLists(await getPhraseLists(), context?.channel)
+    this.settings = await getSettings()
+    return { ready: true }
+  }
+
+  async recognize(chunk: AudioChunk): Promise<GoogleRecognizeResponse | null> {
+    const base64Data = await blobToBase64(chunk.audio)
+    console.log('Base64 data length:', base64Data.length, 'characters')
+
+    const pcmEncoding = chunk.audio.type === 'audio/flac' ? 'FLAC'
+      : chunk.audio.type === 'audio/wav' ? 'LINEAR16'
+      : null
+
+    // FLAC and WAV chunks come from the AudioWorklet recorder as 16 kHz mono,
+    // so a single config is known to match and there's nothing to fall back to
+    if (pcmEncoding) {
+      const result = await this.send({
+        encoding: pcmEncoding,
+        sampleRateHertz: chunk.sampleRate || 16000,
+        audioChannelCount: 1,
+        ...this.baseConfig()
+      }, base64Data)
+      return result.result && this.hasResults(result.result) ? result.result : null
+    }
+
+    // Use explicit configuration that works with WebM Opus:
+    // - encoding: WEBM_OPUS (what MediaRecorder produces)
+    // - sampleRateHertz: 48000 (WebM Opus standard)
+    // - audioChannelCount: 2 (stereo, matches MediaRecorder output)
+    // - The recognition model picked on the options page
+    const config: GoogleRecognitionConfig = {
+      encoding: 'WEBM_OPUS',
+      sampleRateHertz: 48000,
+      audioChannelCount: 2,
+      enableSeparateRecognitionPerChannel: false,
+      ...this.baseConfig()
+    }
+
+    // If we're using Vorbis codec, adjust the configuration
+    if (chunk.audio.type.includes('vorbis')) {
+      console.log('Detected Vorbis codec, using VORBIS encoding...')
+      config.encoding = 'WEBM_VORBIS'
+      // Vorbis typically works better with auto-detection
+      delete config.sampleRateHertz
+      delete config.audioChannelCount
+    }
+
+    const first = await this.send(config, base64Data)
+    if (first.result && this.hasResults(first.result)) {
+      return first.result
+    }
+
+    // Work out which alternative configs are worth a second attempt
+    const fallbacks: { name: string; config: GoogleRecognitionConfig }[] = []
+    if (first.result) {
+      console.log(`❌ Chunk ${chunk.chunkNumber}: No transcription results`)
+      console.log('Full API response for debugging:', JSON.stringify(first.result, null, 2))
+      // A 200 with no results usually means the declared sample rate didn't match the audio
+      const { sampleRateHertz, ...noSampleRate } = config
+      fallbacks.push({ name: 'no sample rate', config: noSampleRate })
+    } else {
+      if (first.errorText.includes('audio_channel_count')) {
+        const { sampleRateHertz, audioChannelCount, enableSeparateRecognitionPerChannel, ...inferred } = config
+        fallbacks.push({ name: 'no channel count', config: inferred })
+      }
+      if (first.errorText.includes('sample rate') || first.errorText.includes('Opus sample rate')) {
+        fallbacks.push({ name: '44.1kHz', config: { ...config, sampleRateHertz: 44100 } })
+      }
+    }
+
+    for (const fallback of fallbacks) {
+      console.log(`Retrying with ${fallback.name} fallback...`)
+      const retry = await this.send(fallback.config, base64Data)
+      if (retry.result && this.hasResults(retry.result)) {
+        return retry.result
+      }
+    }
+
+    return null
+  }
+
+  normalize(response: GoogleRecognizeResponse, chunk: AudioChunk): NormalizedResult {
+    // Long chunks come back as several consecutive results - stitch their top alternatives together
+    const results = (response.results || []).filter(result => result.alternatives?.[0]?.transcript?.trim())
+    const transcription = results
+      .map(result => result.alternatives[0].transcript.trim())
+      .join(' ')
+    const confidence = results.length
+      ? results.reduce((sum, result) => sum + (result.alternatives[0].confidence || 0), 0) / results.length
+      : 0
+
+    if (!transcription) {
+      console.log(`Chunk ${chunk.chunkNumber}: Empty transcription result`)
+      return { entries: [], confidence }
+    }
+
+    // The API reports the language it actually detected on each result
+    const detectedLanguage = results.find(result => result.languageCode)?.languageCode
+
+    const entry: TranscriptionEntry = {
+      timestamp: chunk.timestamp,
+      startTime: chunk.startTime,
+      endTime: chunk.endTime,
+      text: transcription,
+      language: detectedLanguage || this.languages?.primary,
+      chunkNumber: chunk.chunkNumber,
+      confidence
+    }
+
+    const alternatives = this.getAlternatives(results, transcription)
+    if (alternatives.length > 0) entry.alternatives = alternatives
+
+    const words = this.getWords(response)
+    const timings = offsetWords(words.map(word => ({
+      word: word.word,
+      start: parseFloat(word.startTime),
+      end: parseFloat(word.endTime)
+    })), chunk)
+
+    if (this.diarization?.enabled && words.length > 0 && words.every(word => word.speakerTag)) {
+      const speakerWords = timings.map((timing, i) => ({ ...timing, speaker: words[i].speakerTag }))
+      return { entries: splitAtSpeakerTurns(entry, speakerWords), confidence }
+    }
+
+    if (timings.length > 0) entry.words = timings
+    return { entries: [entry], confidence }
+  }
+
+  // The n-th alternative of the whole chunk is every result's n-th alternative, or its best one
+  // where a result has fewer
+  private getAlternatives(results: GoogleRecognizeResponse['results'], transcription: string): string[] {
+    const alternatives: string[] = []
+    for (let n = 1; n <= this.alternatives; n++) {
+      if (!results.some(result => result.alternatives[n]?.transcript?.trim())) break
+
+      const text = results
+        .map(result => (result.alternatives[n]?.transcript || result.alternatives[0].transcript).trim())
+        .join(' ')
+      if (text !== transcription && !alternatives.includes(text)) alternatives.push(text)
+    }
+    return alternatives
+  }
+
+  // With diarization, the last result repeats every word of the request with its speaker tag;
+  // otherwise each result has the words of its own transcript
+  private getWords(response: GoogleRecognizeResponse): GoogleWordInfo[] {
+    const results = response.results || []
+    if (this.diarization?.enabled) {
+      return results[results.length - 1]?.alternatives?.[0]?.words || []
+    }
+    return results.flatMap(result => result.alternatives?.[0]?.words || [])
+  }
+
+  // Settings shared by every request regardless of the audio format
+  private baseConfig(): Omit<GoogleRecognitionConfig, 'encoding'> {
+    const config: Omit<GoogleRecognitionConfig, 'encoding'> = {
+      languageCode: this.languages.primary,
+      enableAutomaticPunctuation: true,
+      model: this.settings.recognitionModel,
+      useEnhanced: this.settings.useEnhanced,
+      maxAlternatives: 1 + this.alternatives
+    }
+
+    // Let the API pick between the primary and alternative languages per result
+    if (this.languages.alternatives.length > 0) {
+      config.alternativeLanguageCodes = this.languages.alternatives
+    }
+
+    if (this.wordTimestamps) {
+      config.enableWordTimeOffsets = true
+    }
+
+    // One speech context per list, so each keeps its own boost
+    if (this.phraseLists.length > 0) {
+      config.speechContexts = this.phraseLists.map(list => list.boost
+        ? { phrases: list.phrases, boost: Math.min(list.boost, MAX_PHRASE_BOOST) }
+        : { phrases: list.phrases })
+    }
+
+    if (this.diarization?.enabled) {
+      config.diarizationConfig = {
+        enableSpeakerDiarization: true,
+        minSpeakerCount: this.diarization.minSpeakers,
+        maxSpeakerCount: this.diarization.maxSpeakers
+      }
+    }
+
+    return config
+  }
+
+  private hasResults(result: GoogleRecognizeResponse): boolean {
+    return !!(result.results && result.results.length > 0 && result.results[0].alternatives)
+  }
+
+  private async send(config: GoogleRecognitionConfig, content: string): Promise<AttemptResult> {
+    console.log('Sending audio to Google Speech API with config:', config)
+
+    const response = await fetchOrThrow(`${RECOGNIZE_URL}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config, audio: { content } })
+    }, 'Google Speech API')
+
+    console.log('Google Speech API response status:', response.status)
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Google Speech API error:', response.status, errorText)
+      // No point trying fallback configs when the service itself is failing
+      if (isRetryableStatus(response.status)) {
+        throw new RecognitionError(`Google Speech API error ${response.status}`, response.status)
+      }
+      return { errorText }
+    }
+
+    const result: GoogleRecognizeResponse = await response.json()
+    console.log('Google Speech API response:', result)
+    console.log('- Results count:', result.results ? result.results.length : 'undefined')
+    console.log('- Total billed time:', result.totalBilledTime)
+    return { result }
+  }
+}
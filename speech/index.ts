@@ -0,0 +1,66 @@
+import { Storage } from "@plasmohq/storage"
+
+import { GoogleV1Provider } from "./google-v1"
+import { MockProvider } from "./mock"
+import { WhisperProvider } from "./whisper"
+import type { SpeechProvider, SpeechProviderId } from "./types"
+
+export type {
+  AudioChunk,
+  NormalizedResult,
+  ProviderStatus,
+  RecognitionContext,
+  SpeechProvider,
+  SpeechProviderId,
+  TranscriptionEntry,
+  WordTiming
+} from "./types"
+export { DEFAULT_WHISPER_ENDPOINT } from "./whisper"
+export { RecognitionError, isRetryableError } from "./errors"
+export {
+  DEFAULT_DIARIZATION_SETTINGS,
+  MAX_SPEAKER_COUNT,
+  getSpeakerKey,
+  getSpeakerName,
+  labelSpeaker
+} from "./diarization"
+export type { SpeakerNames } from "./diarization"
+export { DEFAULT_WORD_TIMESTAMPS_ENABLED } from "./words"
+export { MAX_PHRASE_BOOST, createPhraseList } from "./phrases"
+export type { PhraseList } from "./phrases"
+export {
+  DEFAULT_CONFIDENCE_SETTINGS,
+  MAX_ALTERNATIVES,
+  chooseAlternative,
+  isLowConfidence
+} from "./confidence"
+export {
+  DEFAULT_PRIMARY_LANGUAGE,
+  MAX_ALTERNATIVE_LANGUAGES,
+  SUPPORTED_LANGUAGES,
+  getLanguageName
+} from "./languages"
+
+const storage = new Storage()
+
+export const DEFAULT_SPEECH_PROVIDER: SpeechProviderId = 'google-v1'
+
+const providers: Record<SpeechProviderId, () => SpeechProvider> = {
+  'google-v1': () => new GoogleV1Provider(),
+  'whisper': () => new WhisperProvider(),
+  'mock': () => new MockProvider()
+}
+
+// Options shown in the provider picker
+export const SPEECH_PROVIDER_OPTIONS: { id: SpeechProviderId; label: string }[] = [
+  { id: 'google-v1', label: 'Google Cloud Speech-to-Text (v1)' },
+  { id: 'whisper', label: 'Whisper-compatible server' },
+  { id: 'mock', label: 'Mock (development)' }
+]
+
+// Create the provider currently selected in settings, falling back to the default for unknown ids
+export async function getSpeechProvider(): Promise<SpeechProvider> {
+  const selected = await storage.get<SpeechProviderId>("speech_provider")
+  const factory = providers[selected] || providers[DEFAULT_SPEECH_PROVIDER]
+  return factory()
+}
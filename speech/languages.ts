@@ -0,0 +1,59 @@
+import { Storage } from "@plasmohq/storage"
+
+const storage = new Storage()
+
+export const DEFAULT_PRIMARY_LANGUAGE = 'en-US'
+
+// Google v1 accepts at most 3 alternative language codes per request
+export const MAX_ALTERNATIVE_LANGUAGES = 3
+
+export const SUPPORTED_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'es-ES', name: 'Spanish' },
+  { code: 'fr-FR', name: 'French' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'uk-UA', name: 'Ukrainian' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'tr-TR', name: 'Turkish' },
+  { code: 'ar-SA', name: 'Arabic' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'cmn-Hans-CN', name: 'Chinese (Mandarin, Simplified)' },
+  { code: 'cmn-Hant-TW', name: 'Chinese (Mandarin, Traditional)' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'ko-KR', name: 'Korean' },
+  { code: 'vi-VN', name: 'Vietnamese' },
+  { code: 'id-ID', name: 'Indonesian' }
+]
+
+export interface LanguageSettings {
+  primary: string
+  alternatives: string[]
+}
+
+export async function getLanguageSettings(): Promise<LanguageSettings> {
+  const primary = (await storage.get("primary_language")) || DEFAULT_PRIMARY_LANGUAGE
+  const alternatives = (await storage.get<string[]>("alternative_languages")) || []
+
+  return {
+    primary,
+    alternatives: alternatives
+      .filter(code => code && code !== primary)
+      .slice(0, MAX_ALTERNATIVE_LANGUAGES)
+  }
+}
+
+// Human-readable name for a language code, matching case-insensitively (APIs often return "ja-jp")
+export function getLanguageName(code?: string): string {
+  if (!code) return 'unknown'
+
+  const normalized = code.toLowerCase()
+  const match = SUPPORTED_LANGUAGES.find(language => language.code.toLowerCase() === normalized)
+    || SUPPORTED_LANGUAGES.find(language => language.code.split('-')[0].toLowerCase() === normalized.split('-')[0])
+
+  return match ? match.name : code
+}
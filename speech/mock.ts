@@ -0,0 +1,40 @@
+import type {
+  AudioChunk,
+  NormalizedResult,
+  ProviderStatus,
+  SpeechProvider
+} from "./types"
+
+interface MockResponse {
+  text: string
+}
+
+// Offline provider for development - returns a placeholder line per chunk without any network calls
+export class MockProvider implements SpeechProvider<MockResponse> {
+  readonly id = 'mock' as const
+  readonly label = 'Mock (development)'
+
+  async configure(): Promise<ProviderStatus> {
+    return { ready: true }
+  }
+
+  async recognize(chunk: AudioChunk): Promise<MockResponse | null> {
+    console.log(`Mock provider received chunk ${chunk.chunkNumber}, size: ${chunk.audio.size} bytes`)
+    return { text: `Mock transcription for chunk ${chunk.chunkNumber} (${chunk.audio.size} bytes)` }
+  }
+
+  normalize(response: MockResponse, chunk: AudioChunk): NormalizedResult {
+    return {
+      entries: [{
+        timestamp: chunk.timestamp,
+        startTime: chunk.startTime,
+        endTime: chunk.endTime,
+        text: response.text,
+        language: 'en-US',
+        chunkNumber: chunk.chunkNumber,
+        confidence: 1
+      }],
+      confidence: 1
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { Storage } from "@plasmohq/storage"
+
+const storage = new Storage()
+
+// Google v1's accepted range for a speech context's boost
+export const MAX_PHRASE_BOOST = 20
+
+// Product names, jargon and other phrases the recognizer should expect
+export interface PhraseList {
+  id: string
+  name: string
+  // Channel the list applies to, as the site names it; empty applies to every video
+  channel: string
+  phrases: string[]
+  // How strongly to favour the phrases, 0-MAX_PHRASE_BOOST; unset leaves the recognizer's default
+  boost?: number
+}
+
+export function createPhraseList(channel: string = ''): PhraseList {
+  return {
+    id: String(Date.now()),
+    name: channel ? `${channel} phrases` : 'New phrase list',
+    channel,
+    phrases: []
+  }
+}
+
+export async function getPhraseLists(): Promise<PhraseList[]> {
+  return (await storage.get<PhraseList[]>("phrase_lists")) || []
+}
+
+function normalizeChannel(channel: string): string {
+  return channel.trim().toLowerCase()
+}
+
+// Global lists plus the ones attached to the video's channel. Lists are stored as typed in the
+// editor, so blank lines are dropped here.
+export function selectPhraseLists(lists: PhraseList[], channel?: string): PhraseList[] {
+  return lists
+    .filter(list => !list.channel.trim() || (!!channel && normalizeChannel(list.channel) === normalizeChannel(channel)))
+    .map(list => ({ ...list, phrases: list.phrases.map(phrase => phrase.trim()).filter(Boolean) }))
+    .filter(list => list.phrases.length > 0)
+}
@@ -0,0 +1,63 @@
+import type { TranscriptionEntry } from "./types"
+import { formatTimestamp } from "./utils"
+
+// How far into each side of an overlap to search - 5 seconds of speech is rarely more than ~20 words
+const MAX_OVERLAP_WORDS = 30
+// Shorter matches are too likely to be coincidences ("the", "and so")
+const MIN_OVERLAP_WORDS = 2
+// The recognizer often garbles the first word or two of a segment that starts mid-word
+const MAX_LEADING_SKIP = 2
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+}
+
+// Remove the words at the start of `entry` that repeat the end of `previous`, because both
+// were recognized from the same overlapping audio. Returns null when nothing new is left.
+export function stitchOverlap(previous: TranscriptionEntry | undefined, entry: TranscriptionEntry): TranscriptionEntry | null {
+  if (!previous || previous.chunkNumber === entry.chunkNumber || entry.startTime >= previous.endTime) {
+    return entry
+  }
+
+  const previousWords = previous.text.split(/\s+/).slice(-MAX_OVERLAP_WORDS).map(normalizeWord)
+  const words = entry.text.split(/\s+/).filter(Boolean)
+  const normalized = words.map(normalizeWord)
+
+  let dropCount = 0
+  search: for (let skip = 0; skip <= MAX_LEADING_SKIP; skip++) {
+    const maxLength = Math.min(previousWords.length, normalized.length - skip, MAX_OVERLAP_WORDS)
+    for (let length = maxLength; length >= MIN_OVERLAP_WORDS; length--) {
+      const tail = previousWords.slice(-length)
+      const head = normalized.slice(skip, skip + length)
+      if (tail.every((word, i) => word === head[i])) {
+        dropCount = skip + length
+        break search
+      }
+    }
+  }
+
+  if (dropCount === 0) return entry
+
+  const remaining = words.slice(dropCount)
+  const text = remaining.join(' ')
+  if (!text) return null
+
+  // Word timings line up with the end of the text even when the recognizer split the start differently
+  const timings = entry.words && entry.words.length >= remaining.length
+    ? entry.words.slice(entry.words.length - remaining.length)
+    : undefined
+
+  // The remaining words start where the first of them was timed, or roughly where the previous entry stopped
+  const startTime = timings?.[0]?.startTime ?? Math.min(Math.max(entry.startTime, previous.endTime), entry.endTime)
+
+  // Alternatives still include the dropped words, so they'd bring the overlap back if picked
+  const { alternatives, ...rest } = entry
+
+  return {
+    ...rest,
+    text,
+    startTime,
+    timestamp: formatTimestamp(startTime),
+    words: timings
+  }
+}
@@ -0,0 +1,74 @@
+// A recognized word and when it was spoken, on the same timeline as its entry
+export interface WordTiming {
+  word: string
+  startTime: number
+  endTime: number
+}
+
+export interface TranscriptionEntry {
+  timestamp: string
+  // Seconds from the start of the session
+  startTime: number
+  endTime: number
+  text: string
+  language?: string
+  chunkNumber: number
+  // Target language code -> translated text, when translation is enabled
+  translations?: Record<string, string>
+  // Speaker number from diarization, when it was enabled
+  speaker?: number
+  // Per-word timings, when word timestamps were enabled
+  words?: WordTiming[]
+  // Recognizer's confidence in the text, 0-1, when it reports one
+  confidence?: number
+  // Other likely transcripts of the same audio, best first
+  alternatives?: string[]
+  // A reviewer confirmed the text or picked an alternative, so it's no longer flagged
+  reviewed?: boolean
+}
+
+// A single recorded audio chunk handed to a provider for recognition
+export interface AudioChunk {
+  audio: Blob
+  timestamp: string
+  // Chunk boundaries in seconds from the start of the session
+  startTime: number
+  endTime: number
+  // Known for PCM chunks; WebM carries its own rate in the container
+  sampleRate?: number
+  chunkNumber: number
+}
+
+// What's known about the video being transcribed when a provider is configured for it
+export interface RecognitionContext {
+  channel?: string
+}
+
+// Result of asking a provider whether it has everything it needs to run
+export interface ProviderStatus {
+  ready: boolean
+  error?: string
+}
+
+// Provider output once mapped into our own shape
+export interface NormalizedResult {
+  entries: TranscriptionEntry[]
+  confidence: number
+}
+
+export type SpeechProviderId = 'google-v1' | 'whisper' | 'mock'
+
+export interface SpeechProvider<TResponse = unknown> {
+  readonly id: SpeechProviderId
+  readonly label: string
+
+  // Load credentials/settings from storage and report whether the provider can be used
+  configure(context?: RecognitionContext): Promise<ProviderStatus>
+
+  // Send one chunk to the engine; resolves to null when nothing usable came back.
+  // Rejects with a RecognitionError when the request is worth retrying, network failures included.
+  recognize(chunk: AudioChunk): Promise<TResponse | null>
+
+  // Map the engine's raw response into transcription entries
+  normalize(response: TResponse, chunk: AudioChunk): NormalizedResult
+}
@@ -0,0 +1,22 @@
+// Read a blob as base64, without the "data:...;base64," prefix that FileReader adds
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string
+      resolve(dataUrl.split(',')[1] || dataUrl)
+    }
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Format seconds from the start of the session as HH:MM:SS
+export function formatTimestamp(totalSeconds: number): string {
+  const total = Math.max(0, Math.floor(totalSeconds))
+
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+}
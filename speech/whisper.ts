@@ -0,0 +1,199 @@
+import { Storage } from "@plasmohq/storage"
+
+import type {
+  AudioChunk,
+  NormalizedResult,
+  ProviderStatus,
+  RecognitionContext,
+  SpeechProvider,
+  TranscriptionEntry
+} from "./types"
+import { RecognitionError, fetchOrThrow, isRetryableStatus } from "./errors"
+import { SUPPORTED_LANGUAGES, getLanguageSettings } from "./languages"
+import type { LanguageSettings } from "./languages"
+import { getPhraseLists, selectPhraseLists } from "./phrases"
+import { formatTimestamp } from "./utils"
+import { getWordTimestampsEnabled, offsetWords } from "./words"
+
+const storage = new Storage()
+
+export const DEFAULT_WHISPER_ENDPOINT = 'http://localhost:8000/v1/audio/transcriptions'
+
+// Whisper only reads the last 224 tokens of a prompt; keep well inside that
+const MAX_PROMPT_LENGTH = 600
+
+// Whisper takes ISO 639-1 codes but reports the detected language by its English name
+const WHISPER_LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+  dutch: 'nl',
+  russian: 'ru',
+  ukrainian: 'uk',
+  polish: 'pl',
+  turkish: 'tr',
+  arabic: 'ar',
+  hindi: 'hi',
+  chinese: 'zh',
+  japanese: 'ja',
+  korean: 'ko',
+  vietnamese: 'vi',
+  indonesian: 'id'
+}
+
+function toWhisperCode(code: string): string {
+  return code.startsWith('cmn-') ? 'zh' : code.split('-')[0].toLowerCase()
+}
+
+// OpenAI-style verbose_json response, as returned by whisper.cpp and faster-whisper servers
+interface WhisperResponse {
+  text: string
+  language?: string
+  duration?: number
+  segments?: {
+    start: number
+    end: number
+    text: string
+    avg_logprob?: number
+  }[]
+  // Only with timestamp_granularities[]=word
+  words?: {
+    word: string
+    start: number
+    end: number
+  }[]
+}
+
+export class WhisperProvider implements SpeechProvider<WhisperResponse> {
+  readonly id = 'whisper' as const
+  readonly label = 'Whisper-compatible server'
+
+  private endpoint: string | null = null
+  private languages: LanguageSettings | null = null
+  private wordTimestamps = false
+  // Phrases to expect, passed as the prompt; Whisper has no boost, it just tends to spell words as the prompt does
+  private prompt = ''
+
+  async configure(context?: RecognitionContext): Promise<ProviderStatus> {
+    this.endpoint = (await storage.get("whisper_endpoint")) || DEFAULT_WHISPER_ENDPOINT
+
+    try {
+      new URL(this.endpoint)
+    } catch {
+      return { ready: false, error: `Invalid Whisper endpoint URL: ${this.endpoint}` }
+    }
+
+    console.log('Using Whisper endpoint:', this.endpoint)
+
+    this.languages = await getLanguageSettings()
+    this.wordTimestamps = await getWordTimestampsEnabled()
+
+    const phrases = selectPhraseLists(await getPhraseLists(), context?.channel).flatMap(list => list.phrases)
+    this.prompt = [...new Set(phrases)].join(', ').slice(0, MAX_PROMPT_LENGTH)
+    return { ready: true }
+  }
+
+  async recognize(chunk: AudioChunk): Promise<WhisperResponse | null> {
+    const extension = chunk.audio.type === 'audio/flac' ? 'flac'
+      : chunk.audio.type === 'audio/wav' ? 'wav'
+      : chunk.audio.type.includes('ogg') ? 'ogg'
+      : 'webm'
+    const form = new FormData()
+    form.append('file', chunk.audio, `chunk-${chunk.chunkNumber}.${extension}`)
+    form.append('model', 'whisper-1')
+    form.append('response_format', 'verbose_json')
+    if (this.wordTimestamps) {
+      // Asking for words alone would drop the segments
+      form.append('timestamp_granularities[]', 'segment')
+      form.append('timestamp_granularities[]', 'word')
+    }
+
+    if (this.prompt) {
+      form.append('prompt', this.prompt)
+    }
+
+    // Whisper detects the language itself; only pin it when no alternatives are allowed
+    if (this.languages.alternatives.length === 0) {
+      form.append('language', toWhisperCode(this.languages.primary))
+    }
+
+    console.log(`Sending chunk ${chunk.chunkNumber} to Whisper endpoint:`, this.endpoint)
+
+    const response = await fetchOrThrow(this.endpoint, {
+      method: 'POST',
+      body: form
+    }, 'Whisper endpoint')
+
+    console.log('Whisper response status:', response.status)
+
+    if (!response.ok) {
+      console.error('Whisper endpoint error:', response.status, await response.text())
+      if (isRetryableStatus(response.status)) {
+        throw new RecognitionError(`Whisper endpoint error ${response.status}`, response.status)
+      }
+      return null
+    }
+
+    const result: WhisperResponse = await response.json()
+    console.log('Whisper response:', result)
+
+    if (!result.text?.trim() && !result.segments?.length) {
+      return null
+    }
+    return result
+  }
+
+  normalize(response: WhisperResponse, chunk: AudioChunk): NormalizedResult {
+    const segments = response.segments?.length
+      ? response.segments
+      : [{ start: 0, end: response.duration || chunk.endTime - chunk.startTime, text: response.text }]
+
+    const language = this.toLanguageCode(response.language)
+    const entries: TranscriptionEntry[] = segments
+      .filter(segment => segment.text?.trim())
+      .map(segment => {
+        const entry: TranscriptionEntry = {
+          timestamp: formatTimestamp(chunk.startTime + segment.start),
+          startTime: chunk.startTime + segment.start,
+          endTime: Math.min(chunk.startTime + segment.end, chunk.endTime),
+          text: segment.text.trim(),
+          language,
+          chunkNumber: chunk.chunkNumber
+        }
+        if (typeof segment.avg_logprob === 'number') entry.confidence = Math.exp(segment.avg_logprob)
+
+        // Words are listed for the whole response; each segment takes the ones starting inside it
+        const words = (response.words || []).filter(word => word.start >= segment.start && word.start < segment.end)
+        if (words.length > 0) entry.words = offsetWords(words, chunk)
+        return entry
+      })
+
+    // Whisper reports average log-probabilities per segment; turn them into a rough 0-1 confidence
+    const logprobs = segments
+      .map(segment => segment.avg_logprob)
+      .filter((value): value is number => typeof value === 'number')
+    const confidence = logprobs.length
+      ? Math.exp(logprobs.reduce((sum, value) => sum + value, 0) / logprobs.length)
+      : 0
+
+    return { entries, confidence }
+  }
+
+  // Map Whisper's language name (or code, from some servers) back to one of our codes,
+  // preferring the variant the user picked: "english" -> "en-GB" when that's the primary language
+  private toLanguageCode(language?: string): string | undefined {
+    if (!language) return undefined
+
+    const name = language.toLowerCase()
+    const whisperCode = WHISPER_LANGUAGE_CODES[name] || toWhisperCode(name)
+    const candidates = [
+      this.languages.primary,
+      ...this.languages.alternatives,
+      ...SUPPORTED_LANGUAGES.map(supported => supported.code)
+    ]
+    return candidates.find(code => toWhisperCode(code) === whisperCode) || whisperCode
+  }
+}
@@ -0,0 +1,25 @@
+import { Storage } from "@plasmohq/storage"
+
+import type { AudioChunk, WordTiming } from "./types"
+
+const storage = new Storage()
+
+export const DEFAULT_WORD_TIMESTAMPS_ENABLED = false
+
+export async function getWordTimestampsEnabled(): Promise<boolean> {
+  return (await storage.get<boolean>("word_timestamps_enabled")) ?? DEFAULT_WORD_TIMESTAMPS_ENABLED
+}
+
+// Recognizers time words from the start of the audio they were sent; move them onto the
+// chunk's timeline, never past its end
+export function offsetWords(words: { word: string; start: number; end: number }[], chunk: AudioChunk): WordTiming[] {
+  const toChunkTime = (offset: number) => Math.min(chunk.startTime + Math.max(0, offset || 0), chunk.endTime)
+
+  return words
+    .filter(word => word.word?.trim())
+    .map(word => ({
+      word: word.word.trim(),
+      startTime: toChunkTime(word.start),
+      endTime: toChunkTime(word.end)
+    }))
+}
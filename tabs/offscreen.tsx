@@ -0,0 +1,94 @@
+import { AudioCapture, toAudioChunkMessage } from "~capture/audio-capture"
+import type { AudioCaptureOptions } from "~capture/audio-capture"
+import { onMessage, sendMessage } from "~messaging"
+
+interface TabRecording {
+  stream: MediaStream
+  capture: AudioCapture
+}
+
+// Tabs being recorded through chrome.tabCapture, by tab id
+const recordings = new Map<number, TabRecording>()
+
+async function startTabCapture(tabId: number, streamId: string, options: AudioCaptureOptions) {
+  stopTabCapture(tabId)
+
+  // Chrome's non-standard constraints for a tabCapture stream id
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      mandatory: {
+        chromeMediaSource: 'tab',
+        chromeMediaSourceId: streamId
+      }
+    }
+  } as MediaStreamConstraints)
+
+  const capture = new AudioCapture(stream, { ...options, playThrough: true })
+  capture.onsegment = async (segment) => {
+    try {
+      const message = await toAudioChunkMessage(segment, capture.sampleRate)
+      sendMessage({ ...message, tabId })
+    } catch (error) {
+      console.error(`❌ Failed to send segment ${segment.sequence} for tab ${tabId}:`, error)
+    }
+  }
+  capture.onerror = (event) => {
+    console.error('❌ Tab recorder error:', event)
+    sendMessage({ type: 'recordingError', error: 'Tab audio recorder error occurred', tabId })
+  }
+  capture.onstart = () => {
+    sendMessage({ type: 'recordingStarted', tabId })
+  }
+
+  // The tab was closed or navigated somewhere capture isn't allowed
+  stream.getAudioTracks().forEach(track => {
+    track.addEventListener('ended', () => {
+      if (recordings.get(tabId)?.stream !== stream) return
+      console.log(`Tab ${tabId} audio ended`)
+      sendMessage({ type: 'stopRecording', tabId })
+    })
+  })
+
+  recordings.set(tabId, { stream, capture })
+  await capture.start()
+  console.log(`🎙️ Recording tab ${tabId} audio`)
+}
+
+function stopTabCapture(tabId: number) {
+  const recording = recordings.get(tabId)
+  if (!recording) return
+
+  recordings.delete(tabId)
+  recording.capture.stop()
+  recording.stream.getTracks().forEach(track => track.stop())
+  console.log(`⏹️ Stopped recording tab ${tabId}`)
+}
+
+// Every runtime broadcast reaches this page too; only the capture messages are answered,
+// so replies meant to come from the background aren't pre-empted
+onMessage((message, sender, sendResponse) => {
+  if (message.type === 'startTabCapture') {
+    const { tabId, streamId, vadEnabled, audioEncoding, segmentLengthMs, audioBitrate } = message
+    startTabCapture(tabId, streamId, { vadEnabled, audioEncoding, segmentLengthMs, audioBitrate })
+      .then(() => sendResponse({ success: true }))
+      .catch(error => {
+        console.error(`❌ Failed to capture tab ${tabId}:`, error)
+        stopTabCapture(tabId)
+        sendResponse({ success: false, error: error.message })
+      })
+    return true
+  } else if (message.type === 'stopTabCapture') {
+    stopTabCapture(message.tabId)
+    sendResponse({ success: true, activeCaptures: recordings.size })
+  } else if (message.type === 'setSegmentLength') {
+    recordings.forEach(({ capture }) => capture.setSegmentLength(message.segmentLengthMs))
+    sendResponse({ success: true })
+  }
+})
+
+// Never shown - the page only exists to hold the tab audio streams
+function OffscreenPage() {
+  return null
+}
+
+export default OffscreenPage
@@ -0,0 +1,438 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useStorage } from "@plasmohq/storage/hook"
+
+import { onMessage, sendMessage, sendTabMessage } from "~messaging"
+import {
+  deleteSession,
+  getSession,
+  listSessionSummaries,
+  listSessions,
+  replaceEntry,
+  saveSession
+} from "~sessions/store"
+import type { SessionRecord, SessionSummary, TranscriptSession } from "~sessions/store"
+import { getTimestampUrl, getVideoKey } from "~sites"
+import {
+  DEFAULT_CONFIDENCE_SETTINGS,
+  chooseAlternative,
+  getSpeakerKey,
+  getSpeakerName,
+  isLowConfidence
+} from "~speech"
+import type { TranscriptionEntry } from "~speech"
+import { formatTimestamp } from "~speech/utils"
+
+// Translations are searched too, so a transcript can be found in either language
+function matchesQuery(entry: TranscriptionEntry, query: string): boolean {
+  return [entry.text, ...Object.values(entry.translations || {})].some(text => text.toLowerCase().includes(query))
+}
+
+// Speaker numbers used in a session, in order
+function getSpeakers(session: TranscriptSession): number[] {
+  const speakers = new Set(session.entries.map(entry => entry.speaker).filter(speaker => speaker !== undefined))
+  return [...speakers].sort((a, b) => a - b)
+}
+
+// Seek the tab playing the session's video, preferring the tab it was recorded in.
+// If the video isn't open anymore, open it at that moment instead.
+async function seekTo(session: SessionRecord, time: number) {
+  const videoKey = getVideoKey(session.videoUrl)
+  const tabs = await chrome.tabs.query({})
+  const target =
+    tabs.find(tab => tab.id === session.tabId && getVideoKey(tab.url) === videoKey) ||
+    tabs.find(tab => videoKey && getVideoKey(tab.url) === videoKey)
+
+  if (!target) {
+    chrome.tabs.create({ url: getTimestampUrl(session.videoUrl, time) })
+    return
+  }
+
+  await chrome.tabs.update(target.id, { active: true })
+  await chrome.windows.update(target.windowId, { focused: true })
+  sendTabMessage(target.id, { type: 'seekTo', time })
+    .catch(error => console.warn('Failed to seek video:', error.message))
+}
+
+function highlight(text: string, query: string) {
+  if (!query) return text
+
+  const parts: (string | JSX.Element)[] = []
+  const lower = text.toLowerCase()
+  let index = 0
+  let match = lower.indexOf(query)
+  while (match !== -1) {
+    parts.push(text.slice(index, match))
+    parts.push(<mark key={match}>{text.slice(match, match + query.length)}</mark>)
+    index = match + query.length
+    match = lower.indexOf(query, index)
+  }
+  parts.push(text.slice(index))
+  return parts
+}
+
+function TranscriptsPage() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Only the selected session's entries are loaded
+  const [selected, setSelected] = useState<TranscriptSession | null>(null)
+  const [recordingIds, setRecordingIds] = useState<string[]>([])
+  const [search, setSearch] = useState("")
+  // Session id -> matching entries, while searching
+  const [matchCounts, setMatchCounts] = useState<Record<string, number> | null>(null)
+  // Bumped whenever stored sessions change, so the search is re-run
+  const [revision, setRevision] = useState(0)
+  const selectedIdRef = useRef<string | null>(null)
+  selectedIdRef.current = selectedId
+  // Flagged entry whose alternatives are being shown
+  const [reviewing, setReviewing] = useState<TranscriptionEntry | null>(null)
+  const [threshold] = useStorage("low_confidence_threshold", DEFAULT_CONFIDENCE_SETTINGS.threshold)
+
+  const refresh = async () => {
+    const stored = await listSessionSummaries()
+    setSessions(stored)
+    setSelectedId(selected => selected && stored.some(session => session.id === selected) ? selected : stored[0]?.id ?? null)
+    setRevision(revision => revision + 1)
+
+    const response = await sendMessage({ type: 'getRecordingState' }).catch(() => undefined)
+    setRecordingIds((response?.sessions || []).map(session => session.sessionId))
+  }
+
+  const loadSelected = async (id: string | null) => {
+    if (!id) {
+      setSelected(null)
+      return
+    }
+    const session = await getSession(id)
+    if (selectedIdRef.current === id) setSelected(session)
+  }
+
+  // Load sessions and follow the ones being recorded as new entries arrive
+  useEffect(() => {
+    refresh()
+
+    return onMessage((message) => {
+      if (message.type === 'sessionUpdated' || message.type === 'recordingState') {
+        refresh()
+      }
+      if (message.type === 'sessionUpdated' && message.sessionId === selectedIdRef.current) {
+        loadSelected(message.sessionId)
+      }
+    })
+  }, [])
+
+  useEffect(() => {
+    setReviewing(null)
+    loadSelected(selectedId)
+  }, [selectedId])
+
+  const query = search.trim().toLowerCase()
+
+  // Searching is the one thing that needs every session's entries
+  useEffect(() => {
+    if (!query) {
+      setMatchCounts(null)
+      return
+    }
+
+    let cancelled = false
+    listSessions().then(all => {
+      if (cancelled) return
+      setMatchCounts(Object.fromEntries(all.map(session => [
+        session.id,
+        session.entries.filter(entry => matchesQuery(entry, query)).length
+      ])))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [query, revision])
+
+  const visibleEntries = useMemo(
+    () => (selected?.entries || []).filter(entry => !query || matchesQuery(entry, query)),
+    [selected, query]
+  )
+
+  const speakers = useMemo(() => selected ? getSpeakers(selected) : [], [selected])
+
+  const removeSession = async (session: SessionRecord) => {
+    if (!confirm(`Delete the transcript of "${session.videoTitle}"?`)) return
+    await deleteSession(session.id)
+    refresh()
+  }
+
+  const pickText = async (session: TranscriptSession, entry: TranscriptionEntry, text: string) => {
+    const index = session.entries.indexOf(entry)
+    const updated = chooseAlternative(entry, text)
+    const entries = session.entries.map((e, i) => i === index ? updated : e)
+    setSelected({ ...session, entries })
+    setReviewing(null)
+    await replaceEntry(session.id, index, updated)
+  }
+
+  // Saved as they're typed, so the next export uses them. An empty name falls back to the
+  // session-wide one (for a chunk) or the speaker number.
+  const saveSpeakerName = async (session: TranscriptSession, key: string, name: string) => {
+    const { [key]: _, ...speakerNames } = session.speakerNames || {}
+    const updated = { ...session, speakerNames: name.trim() ? { ...speakerNames, [key]: name } : speakerNames }
+    setSelected(updated)
+    await saveSession(updated)
+  }
+
+  // For a chunk where the recognizer numbered the speakers differently from the rest
+  const renameSpeakerInChunk = (session: TranscriptSession, entry: TranscriptionEntry) => {
+    const name = prompt(
+      `Name for speaker ${entry.speaker} in this chunk only (leave empty to use the name from "Rename speakers"):`,
+      session.speakerNames?.[getSpeakerKey(entry)] || ''
+    )
+    if (name !== null) saveSpeakerName(session, getSpeakerKey(entry), name)
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      height: '100vh',
+      fontFamily: 'system-ui, -apple-system, sans-serif',
+      color: '#202124'
+    }}>
+      <div style={{
+        width: '320px',
+        borderRight: '1px solid #dadce0',
+        overflowY: 'auto',
+        background: '#f8f9fa'
+      }}>
+        <h2 style={{ margin: 0, padding: '16px', fontSize: '18px', color: '#1a73e8' }}>
+          📜 Transcripts
+        </h2>
+        <div style={{ padding: '0 16px 12px' }}>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search all transcripts..."
+            style={{
+              width: '100%',
+              padding: '8px 10px',
+              border: '1px solid #dadce0',
+              borderRadius: '4px',
+              fontSize: '14px',
+              boxSizing: 'border-box'
+            }}
+          />
+        </div>
+
+        {sessions.length === 0 && (
+          <p style={{ padding: '0 16px', fontSize: '13px', color: '#5f6368' }}>
+            No transcripts yet. Start a recording from the extension popup.
+          </p>
+        )}
+
+        {sessions.map(session => {
+          const matchCount = matchCounts ? matchCounts[session.id] ?? 0 : null
+          if (matchCount === 0) return null
+
+          return (
+            <div
+              key={session.id}
+              onClick={() => setSelectedId(session.id)}
+              style={{
+                padding: '10px 16px',
+                cursor: 'pointer',
+                borderTop: '1px solid #e8eaed',
+                background: session.id === selectedId ? '#e8f0fe' : 'transparent'
+              }}
+            >
+              <div style={{ fontSize: '14px', fontWeight: 500, marginBottom: '4px' }}>
+                {session.videoTitle}
+              </div>
+              <div style={{ fontSize: '12px', color: '#5f6368' }}>
+                {new Date(session.startedAt).toLocaleString()} · {session.entryCount} entries
+                {matchCount !== null && ` · ${matchCount} matches`}
+                {recordingIds.includes(session.id) && (
+                  <span style={{ color: '#d93025', marginLeft: '6px' }}>● Recording</span>
+                )}
+                {session.interrupted && session.endedAt === null && (
+                  <span style={{ color: '#e37400', marginLeft: '6px' }}>⚠️ Interrupted</span>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '16px 24px' }}>
+        {selected ? (
+          <>
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '12px', marginBottom: '16px' }}>
+              <div style={{ flex: 1 }}>
+                <h1 style={{ margin: '0 0 4px', fontSize: '20px' }}>{selected.videoTitle}</h1>
+                <a href={selected.videoUrl} target="_blank" rel="noreferrer" style={{ fontSize: '13px', color: '#1a73e8' }}>
+                  {selected.videoUrl}
+                </a>
+              </div>
+              {!recordingIds.includes(selected.id) && (
+                <button
+                  onClick={() => removeSession(selected)}
+                  style={{
+                    background: '#d93025',
+                    color: 'white',
+                    border: 'none',
+                    padding: '6px 12px',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '12px'
+                  }}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+
+            {speakers.length > 0 && !recordingIds.includes(selected.id) && (
+              <div style={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: '8px 16px',
+                padding: '10px 12px',
+                marginBottom: '16px',
+                background: '#f8f9fa',
+                borderRadius: '4px',
+                fontSize: '13px'
+              }}>
+                <span style={{ fontWeight: 500, width: '100%' }}>Rename speakers</span>
+                {speakers.map(speaker => (
+                  <label key={speaker}>
+                    Speaker {speaker}:{' '}
+                    <input
+                      type="text"
+                      value={selected.speakerNames?.[speaker] || ''}
+                      placeholder={`Speaker ${speaker}`}
+                      onChange={(e) => saveSpeakerName(selected, String(speaker), e.target.value)}
+                      style={{ padding: '4px 6px', border: '1px solid #dadce0', borderRadius: '4px' }}
+                    />
+                  </label>
+                ))}
+                <span style={{ width: '100%', color: '#5f6368' }}>
+                  Names apply to the whole session. Speakers are numbered afresh for every chunk of audio,
+                  so where a chunk got them the wrong way round, click a name in it to rename just that chunk.
+                </span>
+              </div>
+            )}
+
+            {visibleEntries.length === 0 && (
+              <p style={{ fontSize: '14px', color: '#5f6368' }}>
+                {query ? 'No entries match your search.' : 'No speech transcribed yet.'}
+              </p>
+            )}
+
+            {visibleEntries.map(entry => {
+              const flagged = !recordingIds.includes(selected.id) && isLowConfidence(entry, threshold)
+
+              return (
+                <div
+                  key={`${entry.chunkNumber}-${entry.startTime}`}
+                  onClick={() => seekTo(selected, entry.startTime)}
+                  title="Jump to this moment in the video"
+                  style={{
+                    display: 'flex',
+                    gap: '12px',
+                    padding: '6px 8px',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '14px',
+                    lineHeight: '1.5'
+                  }}
+                  onMouseEnter={(e) => (e.currentTarget.style.background = '#f1f3f4')}
+                  onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+                >
+                  <span style={{ color: '#1a73e8', fontFamily: 'monospace', flexShrink: 0 }}>
+                    {formatTimestamp(entry.startTime)}
+                  </span>
+                  <span>
+                    {entry.speaker !== undefined && (
+                      <strong
+                        onClick={recordingIds.includes(selected.id) ? undefined : (e) => {
+                          e.stopPropagation()
+                          renameSpeakerInChunk(selected, entry)
+                        }}
+                        title={recordingIds.includes(selected.id) ? undefined : 'Rename this speaker in this chunk only'}
+                        style={{ marginRight: '6px' }}
+                      >
+                        {getSpeakerName(entry, selected.speakerNames)}:
+                      </strong>
+                    )}
+                    <span style={flagged ? { textDecoration: 'underline dotted #e37400' } : undefined}>
+                      {highlight(entry.text, query)}
+                    </span>
+                    {flagged && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setReviewing(reviewing === entry ? null : entry)
+                        }}
+                        title="Low confidence - review this segment"
+                        style={{
+                          marginLeft: '6px',
+                          padding: '0 6px',
+                          border: '1px solid #e37400',
+                          borderRadius: '4px',
+                          background: '#fef7e0',
+                          color: '#e37400',
+                          fontSize: '12px',
+                          cursor: 'pointer'
+                        }}
+                      >
+                        ⚠️ {Math.round(entry.confidence * 100)}%
+                      </button>
+                    )}
+                    {Object.entries(entry.translations || {}).map(([language, text]) => (
+                      <span key={language} style={{ display: 'block', color: '#5f6368' }}>
+                        {highlight(text, query)}
+                      </span>
+                    ))}
+                    {flagged && reviewing === entry && (
+                      <span
+                        onClick={(e) => e.stopPropagation()}
+                        style={{
+                          display: 'block',
+                          marginTop: '4px',
+                          padding: '6px 8px',
+                          background: '#fef7e0',
+                          borderRadius: '4px',
+                          fontSize: '13px',
+                          cursor: 'default'
+                        }}
+                      >
+                        {(entry.alternatives || []).length === 0 && (
+                          <span style={{ display: 'block', color: '#5f6368' }}>No alternatives were recognized.</span>
+                        )}
+                        {(entry.alternatives || []).map(alternative => (
+                          <span
+                            key={alternative}
+                            onClick={() => pickText(selected, entry, alternative)}
+                            style={{ display: 'block', padding: '2px 0', color: '#1a73e8', cursor: 'pointer' }}
+                          >
+                            {alternative}
+                          </span>
+                        ))}
+                        <span
+                          onClick={() => pickText(selected, entry, entry.text)}
+                          style={{ display: 'block', padding: '2px 0', color: '#188038', cursor: 'pointer' }}
+                        >
+                          ✓ Keep the current text
+                        </span>
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )
+            })}
+          </>
+        ) : (
+          <p style={{ fontSize: '14px', color: '#5f6368' }}>Select a transcript to view it.</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TranscriptsPage
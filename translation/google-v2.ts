@@ -0,0 +1,76 @@
+import { Storage } from "@plasmohq/storage"
+
+import { RecognitionError, fetchOrThrow, isRetryableStatus } from "~speech/errors"
+import type { ProviderStatus } from "~speech"
+
+import type { TranslationProvider } from "./types"
+
+const storage = new Storage()
+
+const TRANSLATE_URL = 'https://translation.googleapis.com/language/translate/v2'
+
+// v2 takes at most 128 text segments per request
+const MAX_SEGMENTS_PER_REQUEST = 128
+
+interface GoogleTranslateResponse {
+  data?: {
+    translations?: { translatedText: string; detectedSourceLanguage?: string }[]
+  }
+}
+
+// Translate wants ISO-639 codes; only Chinese keeps a region to tell the scripts apart
+function toTranslateCode(code: string): string {
+  if (code.startsWith('cmn-Hans') || code === 'zh-CN') return 'zh-CN'
+  if (code.startsWith('cmn-Hant') || code === 'zh-TW') return 'zh-TW'
+  return code.split('-')[0]
+}
+
+export class GoogleTranslateV2Provider implements TranslationProvider {
+  readonly id = 'google-translate-v2' as const
+  readonly label = 'Google Cloud Translation (v2)'
+
+  private apiKey: string | null = null
+
+  // Uses the same Google Cloud API key as speech recognition; the Translation API must be enabled on it
+  async configure(): Promise<ProviderStatus> {
+    this.apiKey = (await storage.get("google_api_key")) || null
+    if (!this.apiKey) {
+      return { ready: false, error: 'Please add your Google Cloud API key in the extension popup' }
+    }
+    return { ready: true }
+  }
+
+  async translate(texts: string[], targetLanguage: string, sourceLanguage?: string): Promise<string[]> {
+    const translated: string[] = []
+    for (let i = 0; i < texts.length; i += MAX_SEGMENTS_PER_REQUEST) {
+      translated.push(...await this.send(texts.slice(i, i + MAX_SEGMENTS_PER_REQUEST), targetLanguage, sourceLanguage))
+    }
+    return translated
+  }
+
+  private async send(texts: string[], targetLanguage: string, sourceLanguage?: string): Promise<string[]> {
+    const response = await fetchOrThrow(`${TRANSLATE_URL}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: texts,
+        target: toTranslateCode(targetLanguage),
+        source: sourceLanguage ? toTranslateCode(sourceLanguage) : undefined,
+        // Plain text in and out, so nothing comes back HTML-escaped
+        format: 'text'
+      })
+    }, 'Translate API')
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      if (isRetryableStatus(response.status)) {
+        throw new RecognitionError(`Translate API ${response.status}: ${errorText}`, response.status)
+      }
+      throw new Error(`Translate API ${response.status}: ${errorText}`)
+    }
+
+    const result: GoogleTranslateResponse = await response.json()
+    const translations = result.data?.translations || []
+    return texts.map((text, index) => translations[index]?.translatedText ?? text)
+  }
+}
@@ -0,0 +1,81 @@
+import { Storage } from "@plasmohq/storage"
+
+import type { TranscriptionEntry } from "~speech"
+
+import { GoogleTranslateV2Provider } from "./google-v2"
+import type { TranslationOutput, TranslationProvider, TranslationProviderId } from "./types"
+
+export type { TranslationOutput, TranslationProvider, TranslationProviderId } from "./types"
+
+const storage = new Storage()
+
+export const DEFAULT_TRANSLATION_PROVIDER: TranslationProviderId = 'google-translate-v2'
+
+export const DEFAULT_TRANSLATION_OUTPUT: TranslationOutput = 'original'
+
+const providers: Record<TranslationProviderId, () => TranslationProvider> = {
+  'google-translate-v2': () => new GoogleTranslateV2Provider()
+}
+
+// Options shown in the provider picker
+export const TRANSLATION_PROVIDER_OPTIONS: { id: TranslationProviderId; label: string }[] = [
+  { id: 'google-translate-v2', label: 'Google Cloud Translation (v2)' }
+]
+
+export const TRANSLATION_OUTPUT_OPTIONS: { id: TranslationOutput; label: string }[] = [
+  { id: 'original', label: 'Original only' },
+  { id: 'translation', label: 'Translation only' },
+  { id: 'bilingual', label: 'Original and translation' }
+]
+
+// Create the provider currently selected in settings, falling back to the default for unknown ids
+export async function getTranslationProvider(): Promise<TranslationProvider> {
+  const selected = await storage.get<TranslationProviderId>("translation_provider")
+  const factory = providers[selected] || providers[DEFAULT_TRANSLATION_PROVIDER]
+  return factory()
+}
+
+export async function getTranslationLanguages(): Promise<string[]> {
+  return (await storage.get<string[]>("translation_languages")) || []
+}
+
+// Fill in entry.translations for every target language in settings. Entries already in a
+// target language keep their own text for it. Rejects like TranslationProvider.translate.
+export async function translateEntries(entries: TranscriptionEntry[]) {
+  const targets = await getTranslationLanguages()
+  if (targets.length === 0 || entries.length === 0) return
+
+  const provider = await getTranslationProvider()
+  const status = await provider.configure()
+  if (!status.ready) {
+    console.warn(`${provider.label} is not configured:`, status.error)
+    return
+  }
+
+  for (const target of targets) {
+    const pending = entries.filter(entry => !isSameLanguage(entry.language, target))
+    // Entries can be in different languages, so let the provider detect each one's source
+    const translated = await provider.translate(pending.map(entry => entry.text), target)
+
+    entries.forEach(entry => {
+      entry.translations = { ...entry.translations, [target]: entry.text }
+    })
+    pending.forEach((entry, index) => {
+      entry.translations[target] = translated[index]
+    })
+  }
+}
+
+function isSameLanguage(a: string | undefined, b: string): boolean {
+  return !!a && a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase()
+}
+
+// The text an export shows for an entry: one line per language, original first when both are shown.
+// Entries without translations fall back to their original text.
+export function getEntryLines(entry: TranscriptionEntry, output: TranslationOutput): string[] {
+  const translations = Object.values(entry.translations || {})
+  if (output === 'original' || translations.length === 0) return [entry.text]
+  if (output === 'translation') return translations
+  // Entries already in a target language would just repeat themselves
+  return [entry.text, ...translations.filter(text => text !== entry.text)]
+}
@@ -0,0 +1,18 @@
+import type { ProviderStatus } from "~speech"
+
+export type TranslationProviderId = 'google-translate-v2'
+
+// What transcript exports show when entries have translations
+export type TranslationOutput = 'original' | 'translation' | 'bilingual'
+
+export interface TranslationProvider {
+  readonly id: TranslationProviderId
+  readonly label: string
+
+  // Load credentials from storage and report whether the provider can be used
+  configure(): Promise<ProviderStatus>
+
+  // Translate texts into one target language (a code from SUPPORTED_LANGUAGES), in the same order.
+  // Rejects with a RecognitionError when the request is worth retrying, network failures included.
+  translate(texts: string[], targetLanguage: string, sourceLanguage?: string): Promise<string[]>
+}